@@ -1,66 +1,161 @@
 import { createActions } from 'koota';
 import * as THREE from 'three';
-import { IsPlayer, Transform, IsCamera, IsTrack, Movement, Input, MaxSpeed } from './traits';
-import { spawnInitialTrack } from './systems/track-manager';
+import { IsPlayer, Transform, IsCamera, IsTrack, Movement, Input, MaxSpeed, RaceProgress, RaceSession, PreviousTransform, LastSafePoint, SpatialHashMap, Drift, VehicleProfile, GroundContact, GameEvents, BoostEnergy, SpeedBoost, BarrierContact, CameraShake, TrackPosition } from './traits';
+import { spawnInitialTrack, resetTrack, getTrackSeed, getTrackMode } from './systems/track-manager';
+import { resetCameraFollow } from './systems/camera-follow-player';
+import { resetRapierPhysics } from './systems/rapier-physics';
+import { respawnAtSafePoint } from './systems/respawn';
+import { TrackMode } from './utils/track-generator';
+import { getVehicleProfile, splitHandling } from './data/vehicle-profiles';
+import { createLogger } from './utils/logger';
+
+const RACE_COUNTDOWN = 3; // Seconds before the start of a circuit race
+const RACE_LAPS = 3; // Laps in a circuit race
+
+/**
+ * What startGame needs to set up a run, kept so resetGame can repeat it
+ */
+export interface GameStartOptions {
+	seed?: number; // track seed, random layouts are shared by seed
+	mode?: TrackMode; // endless track or closed circuit
+	vehicle?: string; // id of the player's ship in data/vehicle-profiles.ts
+	cameraPosition: [number, number, number];
+}
+
+const log = createLogger('actions');
 
 // Log actions for debugging
-const logAction = (action: string, ...args: any[]) => {
-	console.log(`[ACTION] ${action}`, ...args);
+const logAction = (action: string, ...args: unknown[]) => {
+	log.info(action, ...args);
 };
 
-export const actions = createActions((world) => ({
-	spawnPlayer: () => {
-		logAction('spawnPlayer');
-		
-		// Spawn player with more height to prevent falling through track
-		return world.spawn(
-			IsPlayer, 
-			Transform({
-				position: new THREE.Vector3(0, 1.0, 0), // Increased height
-				rotation: new THREE.Euler(0, 0, 0),
-				scale: new THREE.Vector3(1, 1, 1),
-			}),
-			Movement({
-				velocity: new THREE.Vector3(0, 0, 0),
-				thrust: 10, // Increased thrust for vehicle movement
-				damping: 0.98, // Slightly reduced damping for smoother deceleration
-				force: new THREE.Vector3(0, 0, 0),
-			}),
-			Input,
-			MaxSpeed({
-				maxSpeed: 30, // Vehicle max speed
-			})
-		);
-	},
-	spawnCamera: (position: [number, number, number]) => {
-		logAction('spawnCamera', position);
-		
-		return world.spawn(
-			IsCamera, 
-			Transform({ 
-				position: new THREE.Vector3(...position),
-				rotation: new THREE.Euler(0, 0, 0),
-				scale: new THREE.Vector3(1, 1, 1),
-			})
-		);
-	},
-	spawnTrack: () => {
-		logAction('spawnTrack');
-		
-		// Create a basic track entity as a reference ground plane
-		const trackEntity = world.spawn(
-			IsTrack, 
-			Transform({ 
-				position: new THREE.Vector3(0, -0.5, 0),
-				rotation: new THREE.Euler(0, 0, 0),
-				scale: new THREE.Vector3(1, 1, 1),
-			})
-		);
-		
-		// Initialize procedural track segments
-		console.log('Initializing procedural track segments');
-		spawnInitialTrack(world);
-		
-		return trackEntity;
-	},
-}));
+export const actions = createActions((world) => {
+	// Options of the last startGame in this world
+	let startOptions: GameStartOptions = { cameraPosition: [0, 5, 10] };
+
+	return {
+		spawnPlayer: (vehicleId?: string) => {
+			logAction('spawnPlayer', vehicleId);
+			const { id, handling } = getVehicleProfile(vehicleId);
+			const { movement: { thrust, damping, maxSpeed }, profile } = splitHandling(handling);
+			
+			// Spawn player with more height to prevent falling through track
+			return world.spawn(
+				IsPlayer, 
+				Transform({
+					position: new THREE.Vector3(0, 1.0, 0), // Increased height
+					// Yaw first, so steering can turn rotation.y while pitch and roll follow the road
+					rotation: new THREE.Euler(0, 0, 0, 'YXZ'),
+					scale: new THREE.Vector3(1, 1, 1),
+				}),
+				PreviousTransform({ position: new THREE.Vector3(0, 1.0, 0) }),
+				Movement({
+					velocity: new THREE.Vector3(0, 0, 0),
+					thrust,
+					damping,
+					force: new THREE.Vector3(0, 0, 0),
+				}),
+				Input,
+				MaxSpeed({ maxSpeed }),
+				VehicleProfile({ id, ...profile }),
+				RaceProgress,
+				LastSafePoint,
+				Drift,
+				GroundContact,
+				BoostEnergy,
+				SpeedBoost,
+				BarrierContact,
+				TrackPosition
+			);
+		},
+		spawnCamera: (position: [number, number, number]) => {
+			logAction('spawnCamera', position);
+			
+			return world.spawn(
+				IsCamera, 
+				Transform({ 
+					position: new THREE.Vector3(...position),
+					rotation: new THREE.Euler(0, 0, 0),
+					scale: new THREE.Vector3(1, 1, 1),
+				}),
+				PreviousTransform({ position: new THREE.Vector3(...position) }),
+				CameraShake
+			);
+		},
+		spawnTrack: (seed?: number, mode?: TrackMode) => {
+			logAction('spawnTrack', seed, mode);
+			
+			// Create a basic track entity as a reference ground plane
+			const trackEntity = world.spawn(
+				IsTrack, 
+				Transform({ 
+					position: new THREE.Vector3(0, -0.5, 0),
+					rotation: new THREE.Euler(0, 0, 0),
+					scale: new THREE.Vector3(1, 1, 1),
+				})
+			);
+			
+			// Initialize procedural track segments
+			log.debug('Initializing procedural track segments');
+			spawnInitialTrack(world, seed, mode);
+			
+			// Circuits are raced from a standing start, an endless run starts straight away
+			world.set(RaceSession, mode === 'circuit'
+				? { state: 'countdown', countdown: RACE_COUNTDOWN, elapsed: 0, totalLaps: RACE_LAPS }
+				: { state: 'racing', countdown: 0, elapsed: 0, totalLaps: 0 });
+			
+			return trackEntity;
+		},
+		startGame: (options: GameStartOptions) => {
+			logAction('startGame', options);
+			startOptions = options;
+			
+			const gameActions = actions(world);
+			
+			// Create procedural track
+			log.debug(`Spawning procedural track (${options.mode ?? 'endless'})`);
+			const trackEntity = gameActions.spawnTrack(options.seed, options.mode);
+			log.debug(`Track entity spawned: ${trackEntity?.id()}`);
+			
+			// Spawn camera
+			log.debug(`Spawning camera at position: (${options.cameraPosition.join(', ')})`);
+			const cameraEntity = gameActions.spawnCamera(options.cameraPosition);
+			log.debug(`Camera spawned: ${cameraEntity?.id()}`);
+			
+			// Spawn player
+			log.debug("Spawning player entity");
+			const playerEntity = gameActions.spawnPlayer(options.vehicle);
+			log.debug(`Player spawned: ${playerEntity?.id()}`);
+			
+			return playerEntity;
+		},
+		resetGame: () => {
+			logAction('resetGame');
+			
+			// Destroy the track segments and clear the track manager's caches
+			resetTrack(world);
+			
+			// Destroy the player, camera and what is left of the track (the ground plane)
+			[...world.query(IsPlayer), ...world.query(IsCamera), ...world.query(IsTrack)].forEach((entity) => entity.destroy());
+			
+			// Clear the rest of the state left over from the previous run
+			resetCameraFollow();
+			resetRapierPhysics(world);
+			world.get(SpatialHashMap)?.reset();
+			world.get(GameEvents)?.clear();
+			
+			// Start again on the same track
+			return actions(world).startGame({
+				...startOptions,
+				seed: startOptions.seed ?? getTrackSeed(world),
+				mode: startOptions.mode ?? getTrackMode(world),
+			});
+		},
+		respawnPlayer: () => {
+			logAction('respawnPlayer');
+			
+			const player = world.queryFirst(IsPlayer, LastSafePoint);
+			return player ? respawnAtSafePoint(world, player) : false;
+		},
+	};
+});
@@ -7,10 +7,17 @@ import { GameLoop } from './frameloop';
 import { Startup } from './startup';
 import { Color } from 'three';
 import { DebugControls } from './components/debug-controls';
+import { RaceHud } from './components/race-hud';
+import { DebugOverlays } from './components/debug-overlays';
+import { InputSettings } from './components/input-settings';
+import { TouchControls } from './components/touch-controls';
 import { OrbitControls, Stats } from '@react-three/drei';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('render');
 
 export function App() {
-	console.log("App component rendering");
+	log.debug("App component rendering");
 	
 	return (
 		<>
@@ -51,6 +58,7 @@ export function App() {
 				<CameraRenderer />
 				<PlayerRenderer />
 				<TrackRenderer />
+				<DebugOverlays />
 
 				<ambientLight intensity={1.02} />
 				<directionalLight position={[10, 10, 10]} intensity={1.5} castShadow shadow-mapSize={[2048, 2048]} />
@@ -64,6 +72,15 @@ export function App() {
 			
 			{/* Render debug controls outside of Canvas so they're always visible */}
 			<DebugControls />
+			
+			{/* Lap timing and race state */}
+			<RaceHud />
+			
+			{/* Key bindings */}
+			<InputSettings />
+			
+			{/* On-screen controls, only shown on touch devices */}
+			<TouchControls />
 		</>
 	);
 }
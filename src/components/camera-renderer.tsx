@@ -10,6 +10,7 @@ import { useWorld } from 'koota/react';
 const BASE_FOV = 70; // Base field of view
 const MAX_FOV_INCREASE = 15; // Maximum FOV increase at max speed
 const MAX_SPEED_REFERENCE = 30; // Speed at which max FOV is reached
+const FOV_SMOOTHING = 0.05; // Fraction of the way to the target FOV covered every 1/60 s
 
 function CameraView({ entity }: { entity: Entity }) {
 	const [camera, setCamera] = useState<THREE.PerspectiveCamera | null>(null);
@@ -25,7 +26,7 @@ function CameraView({ entity }: { entity: Entity }) {
 	);
 	
 	// Update FOV based on player speed
-	useFrame(() => {
+	useFrame((_, delta) => {
 		if (!camera) return;
 		
 		// Find player entity
@@ -39,8 +40,8 @@ function CameraView({ entity }: { entity: Entity }) {
 			const speedFactor = Math.min(speed / MAX_SPEED_REFERENCE, 1);
 			const targetFOV = BASE_FOV + (MAX_FOV_INCREASE * speedFactor);
 			
-			// Smoothly adjust FOV
-			camera.fov += (targetFOV - camera.fov) * 0.05;
+			// Smoothly adjust FOV, at the same rate on any display
+			camera.fov += (targetFOV - camera.fov) * (1 - Math.pow(1 - FOV_SMOOTHING, delta * 60));
 			camera.updateProjectionMatrix();
 		}
 	});
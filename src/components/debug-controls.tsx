@@ -1,13 +1,28 @@
-import React, { useState } from 'react';
-import { useWorld } from 'koota/react';
+import React, { useEffect, useState } from 'react';
+import { useTrait, useWorld } from 'koota/react';
 import { Stats } from '@react-three/drei';
+import { scheduler } from '../pipeline';
+import { actions } from '../actions';
+import { SystemInfo } from '../utils/scheduler';
+import { DebugOverlay, DebugSettings } from '../traits';
+import { useInputBindings } from '../utils/use-input-bindings';
+import { formatBinding, INPUT_ACTION_LABELS, INPUT_ACTIONS } from '../utils/input-bindings';
+import { createLogger, dumpLogs, getLogLevels, LOG_CHANNELS, LOG_LEVELS, LogChannel, LogLevel, setLogLevel } from '../utils/logger';
 
-// Global debug state that can be accessed throughout the application
-export const debugState = {
-  showBoundaries: false,
-  showTrackSegmentIds: false,
-  showControlPoints: false,
-};
+const log = createLogger('render');
+
+// How often the system timings are refreshed while the menu is open
+const TIMINGS_REFRESH_MS = 500;
+
+// Overlay toggles shown in the menu, in order
+const OVERLAY_TOGGLES: { key: DebugOverlay; label: string }[] = [
+  { key: 'showBoundaries', label: 'Boundaries' },
+  { key: 'showSegmentIds', label: 'Segment IDs' },
+  { key: 'showControlPoints', label: 'Control Points' },
+  { key: 'showVelocity', label: 'Velocity/Force' },
+  { key: 'showSpatialHash', label: 'Spatial Hash' },
+  { key: 'showTrackProjection', label: 'Track Projection' },
+];
 
 /**
  * Debug UI component that provides controls for debugging the game
@@ -15,29 +30,48 @@ export const debugState = {
 export function DebugControls() {
   const world = useWorld();
   const [showDebugMenu, setShowDebugMenu] = useState(false);
-  const [showBoundaries, setShowBoundaries] = useState(debugState.showBoundaries);
-  const [showTrackSegmentIds, setShowTrackSegmentIds] = useState(debugState.showTrackSegmentIds);
-  const [showControlPoints, setShowControlPoints] = useState(debugState.showControlPoints);
+  const debugSettings = useTrait(world, DebugSettings);
+  const [systems, setSystems] = useState<SystemInfo[]>(() => scheduler.getSystems());
+  const [logLevels, setLogLevels] = useState(getLogLevels);
+  const bindings = useInputBindings();
+
+  // Poll the scheduler for timings, only while they are on screen
+  useEffect(() => {
+    if (!showDebugMenu) return;
+    setSystems(scheduler.getSystems());
+    const interval = setInterval(() => setSystems(scheduler.getSystems()), TIMINGS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [showDebugMenu]);
 
-  // Update global debug state when UI changes
-  const toggleBoundaries = () => {
-    debugState.showBoundaries = !debugState.showBoundaries;
-    setShowBoundaries(debugState.showBoundaries);
+  // Overlays react to the world trait, so flipping it is all it takes
+  const toggleOverlay = (key: DebugOverlay) => {
+    world.set(DebugSettings, { [key]: !world.get(DebugSettings)?.[key] });
   };
 
-  const toggleSegmentIds = () => {
-    debugState.showTrackSegmentIds = !debugState.showTrackSegmentIds;
-    setShowTrackSegmentIds(debugState.showTrackSegmentIds);
+  const toggleSystem = (name: string) => {
+    scheduler.setEnabled(name, !scheduler.isEnabled(name));
+    setSystems(scheduler.getSystems());
   };
-  
-  const toggleControlPoints = () => {
-    debugState.showControlPoints = !debugState.showControlPoints;
-    setShowControlPoints(debugState.showControlPoints);
+
+  const changeLogLevel = (channel: LogChannel, level: LogLevel) => {
+    setLogLevel(channel, level);
+    setLogLevels(getLogLevels());
+  };
+
+  // Copies the log buffer for bug reports, falling back to the console
+  // where the clipboard is unavailable (e.g. non-secure origins)
+  const dumpLogBuffer = () => {
+    const text = dumpLogs();
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(text).catch(() => console.info(text));
+    } else {
+      console.info(text);
+    }
   };
 
   const resetAll = () => {
-    console.log('Reset game triggered from debug controls');
-    // Would dispatch a reset action here if it was implemented
+    log.info('Reset game triggered from debug controls');
+    actions(world).resetGame();
   };
 
   return (
@@ -84,47 +118,22 @@ export function DebugControls() {
         }}>
           <h3 style={{ margin: '0 0 10px 0' }}>Debug Controls</h3>
           
-          <button
-            onClick={toggleBoundaries}
-            style={{
-              padding: '5px',
-              backgroundColor: showBoundaries ? '#4CAF50' : '#555',
-              border: 'none',
-              borderRadius: '3px',
-              color: 'white',
-              cursor: 'pointer',
-            }}
-          >
-            {showBoundaries ? 'Hide Boundaries' : 'Show Boundaries'}
-          </button>
-          
-          <button
-            onClick={toggleSegmentIds}
-            style={{
-              padding: '5px',
-              backgroundColor: showTrackSegmentIds ? '#4CAF50' : '#555',
-              border: 'none',
-              borderRadius: '3px',
-              color: 'white',
-              cursor: 'pointer',
-            }}
-          >
-            {showTrackSegmentIds ? 'Hide Segment IDs' : 'Show Segment IDs'}
-          </button>
-          
-          <button
-            onClick={toggleControlPoints}
-            style={{
-              padding: '5px',
-              backgroundColor: showControlPoints ? '#4CAF50' : '#555',
-              border: 'none',
-              borderRadius: '3px',
-              color: 'white',
-              cursor: 'pointer',
-            }}
-          >
-            {showControlPoints ? 'Hide Control Points' : 'Show Control Points'}
-          </button>
+          {OVERLAY_TOGGLES.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => toggleOverlay(key)}
+              style={{
+                padding: '5px',
+                backgroundColor: debugSettings?.[key] ? '#4CAF50' : '#555',
+                border: 'none',
+                borderRadius: '3px',
+                color: 'white',
+                cursor: 'pointer',
+              }}
+            >
+              {debugSettings?.[key] ? `Hide ${label}` : `Show ${label}`}
+            </button>
+          ))}
           
           <button
             onClick={resetAll}
@@ -141,11 +150,75 @@ export function DebugControls() {
             Reset Game
           </button>
           
+          <div style={{ marginTop: '10px', fontSize: '12px' }}>
+            <div style={{ marginBottom: '4px' }}>Systems (ms/frame):</div>
+            {systems.map((system) => (
+              <label
+                key={system.name}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  gap: '8px',
+                  opacity: system.enabled ? 1 : 0.5,
+                  cursor: 'pointer',
+                }}
+              >
+                <span>
+                  <input
+                    type="checkbox"
+                    checked={system.enabled}
+                    onChange={() => toggleSystem(system.name)}
+                    style={{ marginRight: '4px' }}
+                  />
+                  {system.phase}/{system.name}
+                </span>
+                <span style={{ fontFamily: 'monospace' }}>{system.averageTime.toFixed(2)}</span>
+              </label>
+            ))}
+          </div>
+          
+          <div style={{ marginTop: '10px', fontSize: '12px' }}>
+            <div style={{ marginBottom: '4px' }}>Logging:</div>
+            {LOG_CHANNELS.map((channel) => (
+              <label
+                key={channel}
+                style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}
+              >
+                <span>{channel}</span>
+                <select
+                  value={logLevels[channel]}
+                  onChange={(event) => changeLogLevel(channel, event.target.value as LogLevel)}
+                >
+                  {LOG_LEVELS.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <button
+              onClick={dumpLogBuffer}
+              style={{
+                padding: '5px',
+                backgroundColor: '#555',
+                border: 'none',
+                borderRadius: '3px',
+                color: 'white',
+                cursor: 'pointer',
+                marginTop: '4px',
+                width: '100%',
+              }}
+            >
+              Copy Logs
+            </button>
+          </div>
+          
           <div style={{ marginTop: '10px', fontSize: '12px', opacity: 0.8 }}>
             <div>Controls:</div>
-            <div>W/S: Forward/Brake</div>
-            <div>A/D: Turn left/right</div>
-            <div>R: Reset (double tap)</div>
+            {INPUT_ACTIONS.map((action) => (
+              <div key={action}>
+                {bindings[action].map(formatBinding).join('/') || '(unbound)'}: {INPUT_ACTION_LABELS[action]}
+              </div>
+            ))}
           </div>
         </div>
       )}
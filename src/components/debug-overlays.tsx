@@ -0,0 +1,260 @@
+import { useQuery, useQueryFirst, useTrait, useWorld } from 'koota/react';
+import { Entity } from 'koota';
+import { Line, Text } from '@react-three/drei';
+import { useFrame } from '@react-three/fiber';
+import { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { DebugSettings, IsPlayer, IsTrack, Movement, SpatialHashMap, TrackSegment, Transform } from '../traits';
+import { getBarrierLimit } from '../systems/track-boundary';
+import { sampleCenterline } from '../utils/track-mesh';
+import { createTrackProjection, projectOntoTrack } from '../utils/track-query';
+
+// Centreline samples used for the boundary lines
+const BOUNDARY_DIVISIONS = 16;
+// Most spatial hash cells drawn at once
+const MAX_HASH_CELLS = 512;
+// Length of the velocity arrow per unit of speed
+const VELOCITY_SCALE = 0.2;
+
+// Debug component to visualize track segment bounding box
+function DebugBoundingBox({ min, max }: { min: THREE.Vector3, max: THREE.Vector3 }) {
+  const size = new THREE.Vector3().subVectors(max, min);
+  const center = new THREE.Vector3().addVectors(min, max).multiplyScalar(0.5);
+
+  return (
+    <mesh position={center}>
+      <boxGeometry args={[size.x, size.y, size.z]} />
+      <meshBasicMaterial color="red" wireframe={true} opacity={0.3} transparent={true} />
+    </mesh>
+  );
+}
+
+// Where vehicles touch the barriers, and the segment's bounds
+function SegmentBoundaries({ entity }: { entity: Entity }) {
+  const segment = entity.get(TrackSegment);
+  const curve = segment?.curve;
+  const width = segment?.width ?? 0;
+
+  const lines = useMemo(() => {
+    if (!curve || curve.knots.length < 2) return null;
+
+    const samples = sampleCenterline(curve, BOUNDARY_DIVISIONS);
+    const limit = getBarrierLimit(width);
+    const edge = (sign: number) => samples.map(({ position, right }) =>
+      position.clone().addScaledVector(right, sign * limit)
+    );
+
+    const box = new THREE.Box3().setFromPoints(samples.map(({ position }) => position));
+    box.expandByScalar(width / 2);
+
+    return { left: edge(-1), right: edge(1), box };
+  }, [curve, width]);
+
+  if (!lines) return null;
+
+  return (
+    <group>
+      <Line points={lines.left} color="#ffaa00" lineWidth={2} dashed dashSize={1} gapSize={1} />
+      <Line points={lines.right} color="#ffaa00" lineWidth={2} dashed dashSize={1} gapSize={1} />
+      <DebugBoundingBox min={lines.box.min} max={lines.box.max} />
+    </group>
+  );
+}
+
+// Segment index and type above the middle of the segment, with axes at its start
+function SegmentLabel({ entity }: { entity: Entity }) {
+  const segment = entity.get(TrackSegment);
+  if (!segment || segment.curve.knots.length < 2) return null;
+
+  const midPoint = segment.curve.getPointAt(0.5);
+
+  return (
+    <group>
+      <group position={[midPoint.x, midPoint.y + 4, midPoint.z]}>
+        <Text
+          color="#ffffff"
+          fontSize={2}
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.1}
+          outlineColor="#000000"
+        >
+          {`#${segment.index}: ${segment.type}`}
+        </Text>
+      </group>
+      <axesHelper position={segment.startPosition} args={[5]} />
+    </group>
+  );
+}
+
+// Visualize the control points as small spheres
+function SegmentControlPoints({ entity }: { entity: Entity }) {
+  const segment = entity.get(TrackSegment);
+  if (!segment) return null;
+
+  return (
+    <group>
+      {segment.controlPoints.map((point, i) => (
+        <mesh key={`cp-${i}`} position={point}>
+          <sphereGeometry args={[0.5, 8, 8]} />
+          <meshStandardMaterial color="#FFFF00" />
+        </mesh>
+      ))}
+    </group>
+  );
+}
+
+// Mounts a per-segment overlay for every track segment
+function SegmentOverlay({ component: Overlay }: { component: (props: { entity: Entity }) => JSX.Element | null }) {
+  const segments = useQuery(IsTrack, TrackSegment);
+
+  return (
+    <>
+      {segments.map((entity) => (
+        <Overlay key={entity} entity={entity} />
+      ))}
+    </>
+  );
+}
+
+// Player velocity (green) and accumulated force (magenta), updated every frame
+function VelocityOverlay({ player }: { player: Entity }) {
+  const arrows = useMemo(() => ({
+    velocity: new THREE.ArrowHelper(new THREE.Vector3(0, 0, -1), new THREE.Vector3(), 1, 0x00ff00),
+    force: new THREE.ArrowHelper(new THREE.Vector3(0, 0, -1), new THREE.Vector3(), 1, 0xff00ff),
+  }), []);
+
+  useEffect(() => () => {
+    arrows.velocity.dispose();
+    arrows.force.dispose();
+  }, [arrows]);
+
+  useFrame(() => {
+    const transform = player.get(Transform);
+    const movement = player.get(Movement);
+    if (!transform || !movement) return;
+
+    const update = (arrow: THREE.ArrowHelper, vector: THREE.Vector3, scale: number) => {
+      const length = vector.length() * scale;
+      arrow.visible = length > 0.01;
+      if (!arrow.visible) return;
+      arrow.position.copy(transform.position);
+      arrow.setDirection(vector.clone().normalize());
+      arrow.setLength(length, Math.min(1, length * 0.3), Math.min(0.5, length * 0.15));
+    };
+
+    update(arrows.velocity, movement.velocity, VELOCITY_SCALE);
+    update(arrows.force, movement.force, 1);
+  });
+
+  return (
+    <>
+      <primitive object={arrows.velocity} />
+      <primitive object={arrows.force} />
+    </>
+  );
+}
+
+// Wireframe boxes around every occupied spatial hash cell
+function SpatialHashOverlay() {
+  const world = useWorld();
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const matrix = useMemo(() => new THREE.Matrix4(), []);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const spatialHashMap = world.get(SpatialHashMap);
+    if (!mesh || !spatialHashMap) return;
+
+    const half = spatialHashMap.cellSize / 2;
+    let count = 0;
+    spatialHashMap.forEachCell((x, y, z) => {
+      if (count >= MAX_HASH_CELLS) return;
+      matrix.makeScale(spatialHashMap.cellSize, spatialHashMap.cellSize, spatialHashMap.cellSize);
+      matrix.setPosition(x + half, y + half, z + half);
+      mesh.setMatrixAt(count++, matrix);
+    });
+
+    mesh.count = count;
+    mesh.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_HASH_CELLS]} frustumCulled={false}>
+      <boxGeometry args={[1, 1, 1]} />
+      <meshBasicMaterial color="#00ffff" wireframe transparent opacity={0.25} />
+    </instancedMesh>
+  );
+}
+
+// Line from the player to its closest centreline point, and the road frame there
+function TrackProjectionOverlay({ player }: { player: Entity }) {
+  const world = useWorld();
+  const projection = useMemo(() => createTrackProjection(), []);
+  const helpers = useMemo(() => {
+    const link = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]),
+      new THREE.LineBasicMaterial({ color: 0xffffff })
+    );
+    return {
+      link,
+      tangent: new THREE.ArrowHelper(new THREE.Vector3(0, 0, -1), new THREE.Vector3(), 4, 0x0000ff),
+      normal: new THREE.ArrowHelper(new THREE.Vector3(0, 1, 0), new THREE.Vector3(), 4, 0x00ff00),
+      right: new THREE.ArrowHelper(new THREE.Vector3(1, 0, 0), new THREE.Vector3(), 4, 0xff0000),
+    };
+  }, []);
+
+  useEffect(() => () => {
+    helpers.link.geometry.dispose();
+    (helpers.link.material as THREE.Material).dispose();
+    helpers.tangent.dispose();
+    helpers.normal.dispose();
+    helpers.right.dispose();
+  }, [helpers]);
+
+  useFrame(() => {
+    const transform = player.get(Transform);
+    const found = !!transform && !!projectOntoTrack(world, transform.position, projection);
+    Object.values(helpers).forEach((helper) => (helper.visible = found));
+    if (!transform || !found) return;
+
+    helpers.link.geometry.setFromPoints([transform.position, projection.position]);
+    helpers.tangent.position.copy(projection.position);
+    helpers.tangent.setDirection(projection.tangent);
+    helpers.normal.position.copy(projection.position);
+    helpers.normal.setDirection(projection.normal);
+    helpers.right.position.copy(projection.position);
+    helpers.right.setDirection(projection.right);
+  });
+
+  return (
+    <>
+      {Object.values(helpers).map((helper) => (
+        <primitive key={helper.uuid} object={helper} />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Debug overlays switched by the DebugSettings world trait
+ * Each overlay is only mounted while it is switched on.
+ */
+export function DebugOverlays() {
+  const world = useWorld();
+  const settings = useTrait(world, DebugSettings);
+  const player = useQueryFirst(IsPlayer, Transform, Movement);
+
+  if (!settings) return null;
+
+  return (
+    <>
+      {settings.showBoundaries && <SegmentOverlay component={SegmentBoundaries} />}
+      {settings.showSegmentIds && <SegmentOverlay component={SegmentLabel} />}
+      {settings.showControlPoints && <SegmentOverlay component={SegmentControlPoints} />}
+      {settings.showSpatialHash && <SpatialHashOverlay />}
+      {settings.showVelocity && player && <VelocityOverlay player={player} />}
+      {settings.showTrackProjection && player && <TrackProjectionOverlay player={player} />}
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import {
+  captureBinding,
+  formatBinding,
+  INPUT_ACTION_LABELS,
+  INPUT_ACTIONS,
+  InputAction,
+  removeBinding,
+  resetBindings,
+  setBinding,
+} from '../utils/input-bindings';
+import { useInputBindings } from '../utils/use-input-bindings';
+
+// The slot being rebound, index past the end adds a binding
+type CaptureTarget = { action: InputAction; index: number };
+
+const buttonStyle = {
+  padding: '4px 8px',
+  backgroundColor: '#555',
+  border: 'none',
+  borderRadius: '3px',
+  color: 'white',
+  cursor: 'pointer',
+};
+
+/**
+ * Settings screen for rebinding controls
+ * Click a binding to replace it, or + to add another one for that action.
+ * Changes are saved straight away.
+ */
+export function InputSettings() {
+  const bindings = useInputBindings();
+  const [open, setOpen] = useState(false);
+  const [capturing, setCapturing] = useState<CaptureTarget | null>(null);
+
+  const capture = async (target: CaptureTarget) => {
+    setCapturing(target);
+    const binding = await captureBinding();
+    if (binding) setBinding(target.action, binding, target.index);
+    setCapturing(null);
+  };
+
+  const isCapturing = (action: InputAction, index: number) =>
+    capturing?.action === action && capturing.index === index;
+
+  return (
+    <>
+      <div style={{
+        position: 'absolute',
+        top: '10px',
+        right: '10px',
+        zIndex: 1000,
+      }}>
+        <button
+          onClick={() => setOpen(!open)}
+          style={{ ...buttonStyle, padding: '8px 12px', backgroundColor: '#333' }}
+        >
+          {open ? 'Close Controls' : 'Controls'}
+        </button>
+      </div>
+
+      {open && (
+        <div style={{
+          position: 'absolute',
+          top: '50px',
+          right: '10px',
+          backgroundColor: 'rgba(0, 0, 0, 0.85)',
+          padding: '10px',
+          borderRadius: '5px',
+          color: 'white',
+          fontSize: '13px',
+          zIndex: 1000,
+        }}>
+          <h3 style={{ margin: '0 0 10px 0' }}>Controls</h3>
+
+          <table style={{ borderSpacing: '6px' }}>
+            <tbody>
+              {INPUT_ACTIONS.map((action) => (
+                <tr key={action}>
+                  <td>{INPUT_ACTION_LABELS[action]}</td>
+                  <td style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+                    {bindings[action].map((binding, index) => (
+                      <span key={index} style={{ display: 'flex' }}>
+                        <button
+                          onClick={() => capture({ action, index })}
+                          disabled={capturing !== null}
+                          style={{ ...buttonStyle, backgroundColor: isCapturing(action, index) ? '#2196F3' : '#555' }}
+                        >
+                          {isCapturing(action, index) ? 'Press a control…' : formatBinding(binding)}
+                        </button>
+                        <button
+                          onClick={() => removeBinding(action, index)}
+                          disabled={capturing !== null}
+                          title="Remove binding"
+                          style={{ ...buttonStyle, backgroundColor: '#333' }}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <button
+                      onClick={() => capture({ action, index: bindings[action].length })}
+                      disabled={capturing !== null}
+                      title="Add binding"
+                      style={{ ...buttonStyle, backgroundColor: isCapturing(action, bindings[action].length) ? '#2196F3' : '#333' }}
+                    >
+                      {isCapturing(action, bindings[action].length) ? 'Press a control…' : '+'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '10px' }}>
+            <span style={{ opacity: 0.7 }}>Esc cancels. Mouse: look around</span>
+            <button
+              onClick={resetBindings}
+              disabled={capturing !== null}
+              style={{ ...buttonStyle, backgroundColor: '#f44336' }}
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
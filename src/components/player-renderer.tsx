@@ -4,11 +4,20 @@ import { useQueryFirst } from 'koota/react';
 import { useRef, MutableRefObject, useCallback, useState, useEffect } from 'react';
 import * as THREE from 'three';
 import { Group } from 'three';
-import src from '../assets/ships/fighter.glb?url';
-import { IsPlayer, Transform, Ref, Movement } from '../traits';
+import fighterModel from '../assets/ships/fighter.glb?url';
+import enemyModel from '../assets/ships/enemy.glb?url';
+import { IsPlayer, Transform, Ref, Movement, VehicleProfile } from '../traits';
+import { getVehicleProfile } from '../data/vehicle-profiles';
+
+// Bundled ship models by the file name used in the vehicle profiles
+const MODEL_URLS: Record<string, string> = {
+	'fighter.glb': fighterModel,
+	'enemy.glb': enemyModel,
+};
 
 export function PlayerView({ entity }: { entity: Entity }) {
-	const { scene } = useGLTF(src);
+	const { visuals } = getVehicleProfile(entity.get(VehicleProfile)?.id);
+	const { scene } = useGLTF(MODEL_URLS[visuals.model] ?? fighterModel);
 	const groupRef = useRef<Group | null>(null) as MutableRefObject<Group | null>;
 	const [wheels, setWheels] = useState<THREE.Mesh[]>([]);
 	
@@ -16,6 +25,13 @@ export function PlayerView({ entity }: { entity: Entity }) {
 	useEffect(() => {
 		if (!groupRef.current) return;
 		
+		// Adjust the model position and rotation
+		scene.position.set(0, 0, 0);
+		scene.rotation.set(0, Math.PI, 0); // Facing forward
+		scene.scale.setScalar(visuals.modelScale);
+		
+		if (!visuals.wheels) return;
+		
 		// Add wheel meshes - these are separate from the imported model
 		const wheelGeometry = new THREE.CylinderGeometry(0.3, 0.3, 0.2, 32);
 		const wheelMaterial = new THREE.MeshStandardMaterial({ color: '#333333' });
@@ -37,11 +53,6 @@ export function PlayerView({ entity }: { entity: Entity }) {
 		
 		setWheels(newWheels);
 		
-		// Adjust the model position and rotation
-		scene.position.set(0, 0, 0);
-		scene.rotation.set(0, Math.PI, 0); // Facing forward
-		scene.scale.set(0.5, 0.5, 0.5); // Adjust scale as needed
-		
 		return () => {
 			newWheels.forEach(wheel => {
 				groupRef.current?.remove(wheel);
@@ -49,7 +60,7 @@ export function PlayerView({ entity }: { entity: Entity }) {
 				(wheel.material as THREE.Material).dispose();
 			});
 		};
-	}, [scene, groupRef.current]);
+	}, [scene, visuals, groupRef.current]);
 
 	// Set up initial state with useCallback
 	const setInitial = useCallback(
@@ -97,7 +108,7 @@ export function PlayerView({ entity }: { entity: Entity }) {
 			{/* Exhaust effect */}
 			<mesh position={[0, -0.2, -1]} rotation={[Math.PI / 2, 0, 0]}>
 				<cylinderGeometry args={[0.1, 0.3, 0.8, 16]} />
-				<meshStandardMaterial emissive="#ff4400" emissiveIntensity={2} transparent opacity={0.6} />
+				<meshStandardMaterial emissive={visuals.exhaustColor} emissiveIntensity={2} transparent opacity={0.6} />
 			</mesh>
 		</group>
 	);
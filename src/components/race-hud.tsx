@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { useQueryFirst, useTrait, useWorld } from 'koota/react';
+import { BoostEnergy, Drift, IsPlayer, RaceProgress, RaceSession } from '../traits';
+import { useGameEvent } from '../utils/use-game-event';
+
+const LAP_BANNER_TIME = 2000; // How long a completed lap is announced (ms)
+
+/**
+ * Formats race time in seconds as m:ss.mmm
+ */
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(3).padStart(6, '0')}`;
+}
+
+/**
+ * Formats a split against the best lap, e.g. +0.412 or -1.030
+ */
+function formatDelta(seconds: number): string {
+  return `${seconds > 0 ? '+' : '-'}${Math.abs(seconds).toFixed(3)}`;
+}
+
+/**
+ * Race HUD showing the countdown, lap counter, lap times, splits, drifts and boost energy
+ * Reads the RaceSession world trait and the player's RaceProgress, Drift and
+ * BoostEnergy, and announces completed laps from the lapCompleted game event.
+ */
+export function RaceHud() {
+  const world = useWorld();
+  const session = useTrait(world, RaceSession);
+  const player = useQueryFirst(IsPlayer, RaceProgress);
+  const progress = useTrait(player, RaceProgress);
+  const drift = useTrait(player, Drift);
+  const boost = useTrait(player, BoostEnergy);
+  const [lapBanner, setLapBanner] = useState<{ lap: number; lapTime: number; isBest: boolean } | null>(null);
+
+  useGameEvent('lapCompleted', ({ entity, lap, lapTime, isBest }) => {
+    if (entity === player) setLapBanner({ lap, lapTime, isBest });
+  });
+
+  useEffect(() => {
+    if (!lapBanner) return;
+    const timeout = setTimeout(() => setLapBanner(null), LAP_BANNER_TIME);
+    return () => clearTimeout(timeout);
+  }, [lapBanner]);
+
+  if (!session || !progress) return null;
+
+  const isCircuit = session.totalLaps > 0;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '10px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      color: 'white',
+      fontFamily: 'monospace',
+      textAlign: 'center',
+      textShadow: '0 0 4px black',
+      pointerEvents: 'none',
+      zIndex: 1000,
+    }}>
+      {session.state === 'countdown' && (
+        <div style={{ fontSize: '64px', fontWeight: 'bold' }}>
+          {Math.ceil(session.countdown)}
+        </div>
+      )}
+
+      {session.state === 'finished' && (
+        <div style={{ fontSize: '40px', fontWeight: 'bold' }}>FINISHED</div>
+      )}
+
+      {lapBanner && session.state !== 'finished' && (
+        <div style={{ fontSize: '24px', color: lapBanner.isBest ? '#4CAF50' : 'white' }}>
+          LAP {lapBanner.lap} {formatTime(lapBanner.lapTime)}{lapBanner.isBest && ' BEST'}
+        </div>
+      )}
+
+      {isCircuit && (
+        <>
+          <div style={{ fontSize: '20px' }}>
+            LAP {Math.min(progress.lap, session.totalLaps)}/{session.totalLaps}
+          </div>
+          <div style={{ fontSize: '28px' }}>{formatTime(progress.currentLapTime)}</div>
+          {progress.splitDelta !== 0 && (
+            <div style={{ fontSize: '16px', color: progress.splitDelta < 0 ? '#4CAF50' : '#f44336' }}>
+              {formatDelta(progress.splitDelta)}
+            </div>
+          )}
+          <div style={{ fontSize: '14px', opacity: 0.8 }}>
+            {progress.lastLapTime > 0 && <div>LAST {formatTime(progress.lastLapTime)}</div>}
+            {progress.bestLapTime > 0 && <div>BEST {formatTime(progress.bestLapTime)}</div>}
+          </div>
+        </>
+      )}
+
+      {!isCircuit && (
+        <div style={{ fontSize: '20px' }}>{Math.round(progress.distance)} m</div>
+      )}
+
+      {drift && (
+        <div style={{ fontSize: '14px', marginTop: '6px' }}>
+          {drift.active && (
+            <div style={{ fontSize: '22px', color: '#ffcc00' }}>DRIFT +{Math.round(drift.chainScore)}</div>
+          )}
+          <div style={{ opacity: 0.8 }}>DRIFT SCORE {drift.score}</div>
+        </div>
+      )}
+
+      {boost && (
+        <div style={{ marginTop: '6px' }}>
+          <div style={{ fontSize: '12px', opacity: 0.8 }}>BOOST</div>
+          <div style={{
+            width: '160px',
+            height: '8px',
+            margin: '2px auto 0',
+            backgroundColor: 'rgba(255, 255, 255, 0.2)',
+            borderRadius: '4px',
+            overflow: 'hidden',
+          }}>
+            <div style={{
+              width: `${Math.round(boost.energy * 100)}%`,
+              height: '100%',
+              backgroundColor: boost.active ? '#00e5ff' : '#2196F3',
+            }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
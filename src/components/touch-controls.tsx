@@ -0,0 +1,154 @@
+import { CSSProperties, PointerEvent as ReactPointerEvent, useEffect, useRef, useState } from 'react';
+import {
+  isTouchDevice,
+  resetTouchInput,
+  setTiltSteering,
+  setTouchButton,
+  setTouchSteer,
+} from '../utils/touch-input';
+
+// Joystick travel, in pixels, for full steering lock
+const STEER_RADIUS = 60;
+
+const controlStyle = {
+  position: 'absolute' as const,
+  borderRadius: '50%',
+  border: '2px solid rgba(255, 255, 255, 0.5)',
+  backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  color: 'white',
+  fontFamily: 'monospace',
+  fontWeight: 'bold',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  userSelect: 'none' as const,
+  touchAction: 'none',
+  zIndex: 1000,
+};
+
+/**
+ * Steer zone: drag sideways from where the touch started to steer
+ */
+function SteerZone() {
+  const origin = useRef<{ id: number; x: number } | null>(null);
+  const [offset, setOffset] = useState(0);
+
+  const onPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    origin.current = { id: e.pointerId, x: e.clientX };
+  };
+
+  const onPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (origin.current?.id !== e.pointerId) return;
+    const clamped = Math.max(-STEER_RADIUS, Math.min(STEER_RADIUS, e.clientX - origin.current.x));
+    setOffset(clamped);
+    setTouchSteer(clamped / STEER_RADIUS);
+  };
+
+  const onPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (origin.current?.id !== e.pointerId) return;
+    origin.current = null;
+    setOffset(0);
+    setTouchSteer(0);
+  };
+
+  return (
+    <div
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      style={{ ...controlStyle, left: '20px', bottom: '20px', width: '160px', height: '160px' }}
+    >
+      <div style={{
+        width: '60px',
+        height: '60px',
+        borderRadius: '50%',
+        backgroundColor: 'rgba(255, 255, 255, 0.4)',
+        transform: `translateX(${offset}px)`,
+        pointerEvents: 'none',
+      }} />
+    </div>
+  );
+}
+
+/**
+ * A control that is active while a finger is on it
+ */
+function HoldButton({ control, label, style }: {
+  control: 'throttle' | 'brake' | 'boost';
+  label: string;
+  style: CSSProperties;
+}) {
+  const [held, setHeld] = useState(false);
+
+  const press = (e: ReactPointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setHeld(true);
+    setTouchButton(control, true);
+  };
+
+  const release = () => {
+    setHeld(false);
+    setTouchButton(control, false);
+  };
+
+  return (
+    <div
+      onPointerDown={press}
+      onPointerUp={release}
+      onPointerCancel={release}
+      style={{ ...controlStyle, ...style, backgroundColor: held ? 'rgba(255, 255, 255, 0.4)' : controlStyle.backgroundColor }}
+    >
+      {label}
+    </div>
+  );
+}
+
+/**
+ * On-screen controls for touch devices
+ * Steer zone on the left, throttle, brake and boost on the right, and an
+ * optional switch for steering by tilting the device. Renders nothing on
+ * devices without a touch screen.
+ */
+export function TouchControls() {
+  const [enabled] = useState(isTouchDevice);
+  const [tilt, setTilt] = useState(false);
+
+  // Let go of everything (and stop listening to tilt) when unmounted
+  useEffect(() => () => {
+    resetTouchInput();
+    setTiltSteering(false);
+  }, []);
+
+  if (!enabled) return null;
+
+  const toggleTilt = async () => {
+    setTilt(await setTiltSteering(!tilt));
+  };
+
+  return (
+    <>
+      <SteerZone />
+      <HoldButton control="throttle" label="GO" style={{ right: '20px', bottom: '90px', width: '90px', height: '90px' }} />
+      <HoldButton control="brake" label="BRK" style={{ right: '120px', bottom: '20px', width: '70px', height: '70px' }} />
+      <HoldButton control="boost" label="BST" style={{ right: '120px', bottom: '110px', width: '60px', height: '60px' }} />
+      <button
+        onClick={toggleTilt}
+        style={{
+          position: 'absolute',
+          left: '20px',
+          bottom: '200px',
+          padding: '6px 10px',
+          backgroundColor: tilt ? '#4CAF50' : '#333',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          zIndex: 1000,
+        }}
+      >
+        {tilt ? 'Tilt: on' : 'Tilt: off'}
+      </button>
+    </>
+  );
+}
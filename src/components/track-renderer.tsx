@@ -1,68 +1,54 @@
 import { useQuery, useQueryFirst } from 'koota/react';
-import { Entity } from 'koota';
+import { Entity, TraitInstance } from 'koota';
 import { IsTrack, Transform, TrackSegment } from '../traits';
-import { Grid, Line, Box, Text, useHelper } from '@react-three/drei';
+import { Grid, Line } from '@react-three/drei';
 import { useRef, MutableRefObject, useCallback, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { Group } from 'three';
-import { debugState } from './debug-controls';
+import { CenterlineSample, createBarrierGeometry, createTrackRibbonGeometry, sampleCenterline } from '../utils/track-mesh';
+import { BoostPad, TRACK_CONFIG } from '../utils/track-generator';
+import { TrackCurve } from '../utils/track-curve';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('render');
+
+type TrackSegmentData = TraitInstance<typeof TrackSegment>;
+
+// Centreline samples per segment used for the road mesh
+const RIBBON_DIVISIONS = 24;
+// Height of the barrier walls along the road's up vector
+const BARRIER_HEIGHT = 1.5;
 
 // Helper function to create edge points for the track
-function createTrackEdges(segment: any): [THREE.Vector3[], THREE.Vector3[]] {
-  const controlPoints = segment.controlPoints;
-  const width = segment.width;
-  
-  if (!controlPoints || controlPoints.length === 0) {
-    // Return empty arrays if no control points
-    return [[], []];
-  }
+// Points sit on the road edges, lifted along the road's up vector by `height`
+function createTrackEdges(
+  samples: CenterlineSample[],
+  width: number,
+  height: number = 0
+): [THREE.Vector3[], THREE.Vector3[]] {
+  const halfWidth = width / 2;
   
-  const leftEdge: THREE.Vector3[] = [];
-  const rightEdge: THREE.Vector3[] = [];
-  
-  // For each control point, create left and right edge points
-  for (let i = 0; i < controlPoints.length; i++) {
-    const point = controlPoints[i];
-    
-    // Compute direction at this point
-    const direction = new THREE.Vector3(0, 0, -1);
-    if (i < controlPoints.length - 1) {
-      direction.subVectors(controlPoints[i + 1], point).normalize();
-    } else if (i > 0) {
-      direction.subVectors(point, controlPoints[i - 1]).normalize();
-    }
-    
-    // Create perpendicular vector
-    const perpendicular = new THREE.Vector3(-direction.z, 0, direction.x).normalize();
-    
-    // Create left and right edge points
-    const halfWidth = width / 2;
-    const leftPoint = point.clone().add(perpendicular.clone().multiplyScalar(halfWidth));
-    const rightPoint = point.clone().add(perpendicular.clone().multiplyScalar(-halfWidth));
-    
-    leftEdge.push(leftPoint);
-    rightEdge.push(rightPoint);
-  }
+  const edge = (sign: number) => samples.map(({ position, right, up }) =>
+    position.clone().addScaledVector(right, sign * halfWidth).addScaledVector(up, height)
+  );
   
-  return [leftEdge, rightEdge];
+  return [edge(-1), edge(1)];
 }
 
-// Component to render a barrier along track edge
-function BarrierLine({ points, side }: { points: THREE.Vector3[], side: 'left' | 'right' }) {
-  if (points.length < 2) return null;
-  
+// Component to render a barrier rail and posts along a track edge
+function BarrierLine({ points, railPoints, side }: { points: THREE.Vector3[], railPoints: THREE.Vector3[], side: 'left' | 'right' }) {
   // Generate barrier posts
   const barrierPosts = useMemo(() => {
     const posts = [];
     // Place posts every few points along the edge
     for (let i = 0; i < points.length; i += 2) {
-      const point = points[i].clone();
-      // Adjust height for the post
-      point.y += 0.5; // Half height of the post
-      posts.push(point);
+      // Post centre halfway between the road edge and the rail
+      posts.push(points[i].clone().lerp(railPoints[i], 0.5));
     }
     return posts;
-  }, [points]);
+  }, [points, railPoints]);
+  
+  if (points.length < 2) return null;
   
   const barrierColor = side === 'left' ? '#ff4444' : '#4444ff';
   
@@ -70,7 +56,7 @@ function BarrierLine({ points, side }: { points: THREE.Vector3[], side: 'left' |
     <group>
       {/* Barrier line */}
       <Line
-        points={points}
+        points={railPoints}
         color={barrierColor}
         lineWidth={4}
       />
@@ -78,7 +64,7 @@ function BarrierLine({ points, side }: { points: THREE.Vector3[], side: 'left' |
       {/* Barrier posts */}
       {barrierPosts.map((position, index) => (
         <mesh key={`${side}-post-${index}`} position={position}>
-          <boxGeometry args={[0.3, 1, 0.3]} />
+          <boxGeometry args={[0.3, BARRIER_HEIGHT, 0.3]} />
           <meshStandardMaterial color="#888888" metalness={0.6} roughness={0.4} />
         </mesh>
       ))}
@@ -87,7 +73,7 @@ function BarrierLine({ points, side }: { points: THREE.Vector3[], side: 'left' |
 }
 
 // Track surface patterns based on segment type
-function TrackSurfacePattern({ segment, geometry }: { segment: any, geometry: THREE.BufferGeometry }) {
+function TrackSurfacePattern({ segment, geometry }: { segment: TrackSegmentData, geometry: THREE.BufferGeometry }) {
   const getPatternTexture = () => {
     const canvas = document.createElement('canvas');
     canvas.width = 512;
@@ -178,7 +164,11 @@ function TrackSurfacePattern({ segment, geometry }: { segment: any, geometry: TH
         ctx.stroke();
     }
     
-    return new THREE.CanvasTexture(canvas);
+    const texture = new THREE.CanvasTexture(canvas);
+    // Repeat along the road, the ribbon UVs advance one unit per road width
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    return texture;
   };
   
   // Create texture if segment exists
@@ -186,6 +176,9 @@ function TrackSurfacePattern({ segment, geometry }: { segment: any, geometry: TH
     return getPatternTexture();
   }, [segment.type]);
   
+  // Release the canvas texture when the segment goes away
+  useEffect(() => () => texture?.dispose(), [texture]);
+  
   // Get base color for the track type
   const getTrackColor = () => {
     switch (segment.type) {
@@ -217,99 +210,96 @@ function TrackSurfacePattern({ segment, geometry }: { segment: any, geometry: TH
   );
 }
 
-// Debug component to visualize track segment bounding box
-function DebugBoundingBox({ min, max }: { min: THREE.Vector3, max: THREE.Vector3 }) {
-  const size = new THREE.Vector3().subVectors(max, min);
-  const center = new THREE.Vector3().addVectors(min, max).multiplyScalar(0.5);
-  
+// Boost pad lying on the road, lifted slightly so it doesn't flicker against the surface
+function BoostPadView({ curve, length, pad }: { curve: TrackCurve, length: number, pad: BoostPad }) {
+  const placement = useMemo(() => {
+    const frame = curve.getFrameAt(THREE.MathUtils.clamp(pad.along / length, 0, 1));
+    const position = frame.position.clone()
+      .addScaledVector(frame.right, pad.offset)
+      .addScaledVector(frame.up, 0.03);
+    const back = frame.tangent.clone().negate();
+    const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(frame.right, frame.up, back));
+    return { position, quaternion };
+  }, [curve, length, pad]);
+
   return (
-    <mesh position={center}>
-      <boxGeometry args={[size.x, size.y, size.z]} />
-      <meshBasicMaterial color="red" wireframe={true} opacity={0.3} transparent={true} />
+    <mesh position={placement.position} quaternion={placement.quaternion}>
+      <boxGeometry args={[TRACK_CONFIG.boostPadWidth, 0.05, TRACK_CONFIG.boostPadLength]} />
+      <meshStandardMaterial color="#00e5ff" emissive="#00e5ff" emissiveIntensity={0.6} />
     </mesh>
   );
 }
 
-// Simplified track segment view for debugging
+// Track segment view built from the segment's sampled centreline
 function TrackSegmentView({ entity }: { entity: Entity }) {
   const segment = entity.get(TrackSegment);
+  
+  const curve = segment?.curve;
+  const width = segment?.width ?? 0;
+  const railDivisions = Math.max(1, (segment?.controlPoints.length ?? 2) - 1);
+  
+  // Road surface and barrier walls follow exactly the curve used by the simulation
+  const geometries = useMemo(() => {
+    if (!curve || curve.knots.length < 2) return null;
+    
+    const samples = sampleCenterline(curve, RIBBON_DIVISIONS);
+    return {
+      surface: createTrackRibbonGeometry(samples, width),
+      leftBarrier: createBarrierGeometry(samples, width, 'left', BARRIER_HEIGHT),
+      rightBarrier: createBarrierGeometry(samples, width, 'right', BARRIER_HEIGHT),
+    };
+  }, [curve, width]);
+  
+  // Edge points for the barrier posts and rails, one per control point
+  const edges = useMemo(() => {
+    if (!curve || curve.knots.length < 2) return null;
+    
+    const samples = sampleCenterline(curve, railDivisions);
+    return {
+      base: createTrackEdges(samples, width),
+      rail: createTrackEdges(samples, width, BARRIER_HEIGHT),
+    };
+  }, [curve, width, railDivisions]);
+  
+  // Dispose generated geometry when the segment is removed
+  useEffect(() => {
+    return () => {
+      geometries?.surface.dispose();
+      geometries?.leftBarrier.dispose();
+      geometries?.rightBarrier.dispose();
+    };
+  }, [geometries]);
+  
   if (!segment) {
-    console.error("No TrackSegment trait found on entity");
+    log.error("No TrackSegment trait found on entity");
     return null;
   }
   
-  // Get control points from segment
-  const controlPoints = segment.controlPoints;
-  if (!controlPoints || controlPoints.length < 2) {
-    console.error("TrackSegment has insufficient control points", segment);
+  if (!geometries || !edges) {
+    log.error("TrackSegment has no sampleable curve", segment);
     return null;
   }
   
-  // Create a distinctive color based on segment index for debugging
-  const getSegmentColor = (index: number, type: string) => {
-    // Base color determined by segment type
-    let color;
-    switch (type) {
-      case 'curve-left': 
-      case 'curve-right': return '#4466AA';
-      case 'hill-up': return '#44AA66';
-      case 'hill-down': return '#AA4466';
-      case 'chicane': 
-      case 's-curve': return '#AA44AA';
-      default: return '#888888'; // straight
-    }
-  };
-  
-  // Get segment start position for placement
-  const startPos = segment.startPosition || controlPoints[0];
-  
-  // Calculate segment length either from property or from control points
-  const segmentLength = segment.length || 
-    (controlPoints.length > 1 ? controlPoints[0].distanceTo(controlPoints[controlPoints.length-1]) : 50);
-  
-  // Create a simple box representing the track segment
   return (
     <group>
-      {/* Show segment as a colored box */}
-      <mesh position={[startPos.x, startPos.y, startPos.z - segmentLength/2]}>
-        <boxGeometry args={[segment.width, 0.5, segmentLength]} />
-        <meshStandardMaterial 
-          color={getSegmentColor(segment.index, segment.type)} 
-          roughness={0.8}
-        />
-      </mesh>
+      {/* Road surface ribbon */}
+      <TrackSurfacePattern segment={segment} geometry={geometries.surface} />
       
-      {/* Add barriers on both sides */}
-      <mesh position={[startPos.x + segment.width/2, startPos.y + 1, startPos.z - segmentLength/2]}>
-        <boxGeometry args={[1, 2, segmentLength]} />
-        <meshStandardMaterial color="#AA2222" />
+      {/* Barrier walls on both sides */}
+      <mesh geometry={geometries.leftBarrier}>
+        <meshStandardMaterial color="#AA2222" side={THREE.DoubleSide} />
       </mesh>
-      
-      <mesh position={[startPos.x - segment.width/2, startPos.y + 1, startPos.z - segmentLength/2]}>
-        <boxGeometry args={[1, 2, segmentLength]} />
-        <meshStandardMaterial color="#2222AA" />
+      <mesh geometry={geometries.rightBarrier}>
+        <meshStandardMaterial color="#2222AA" side={THREE.DoubleSide} />
       </mesh>
       
-      {/* Add segment number display */}
-      <group position={[startPos.x, startPos.y + 4, startPos.z - segmentLength/2]}>
-        <Text
-          color="#ffffff"
-          fontSize={2}
-          anchorX="center"
-          anchorY="middle"
-          outlineWidth={0.1}
-          outlineColor="#000000"
-        >
-          {`#${segment.index}: ${segment.type}`}
-        </Text>
-      </group>
+      {/* Barrier rails and posts */}
+      <BarrierLine points={edges.base[0]} railPoints={edges.rail[0]} side="left" />
+      <BarrierLine points={edges.base[1]} railPoints={edges.rail[1]} side="right" />
       
-      {/* Visualize the control points as small spheres */}
-      {controlPoints.map((point, i) => (
-        <mesh key={`cp-${i}`} position={point}>
-          <sphereGeometry args={[0.5, 8, 8]} />
-          <meshStandardMaterial color="#FFFF00" />
-        </mesh>
+      {/* Boost pads */}
+      {curve && segment.boostPads.map((pad, index) => (
+        <BoostPadView key={index} curve={curve} length={segment.length} pad={pad} />
       ))}
     </group>
   );
@@ -358,21 +348,21 @@ export function TrackView({ entity }: { entity: Entity }) {
 
 // Query for all track segments and render them
 export function TrackRenderer() {
-  console.log("TrackRenderer component rendering");
+  log.debug("TrackRenderer component rendering");
   
   // Get the main track entity (basic ground plane)
   const track = useQueryFirst(IsTrack, Transform);
-  console.log("Main track entity:", track?.id);
+  log.debug("Main track entity:", track?.id());
   
   // Get all track segment entities
   const segments = useQuery(IsTrack, TrackSegment);
   
   // Log segment count for debugging
-  console.log(`TrackRenderer: Found ${segments.length} track segments`);
+  log.debug(`TrackRenderer: Found ${segments.length} track segments`);
   
   if (segments.length > 0) {
     const firstSegment = segments[0].get(TrackSegment);
-    console.log("First segment:", { 
+    log.debug("First segment:", { 
       index: firstSegment?.index,
       type: firstSegment?.type,
       controlPoints: firstSegment?.controlPoints?.length
@@ -381,12 +371,6 @@ export function TrackRenderer() {
   
   return (
     <>
-      {/* Debug test sphere to verify rendering works */}
-      <mesh position={[0, 5, 0]}>
-        <sphereGeometry args={[2, 32, 32]} />
-        <meshStandardMaterial color="red" />
-      </mesh>
-      
       {/* Basic floor grid for orientation */}
       <Grid
         args={[1000, 1000]}
@@ -400,24 +384,10 @@ export function TrackRenderer() {
         position={[0, -0.5, 0]}
       />
       
-      {/* Render all track segments */}
+      {/* Render all track segments, debug markers live in DebugOverlays */}
       {segments.map(entity => (
-        <TrackSegmentView key={entity.id.toString()} entity={entity} />
+        <TrackSegmentView key={entity} entity={entity} />
       ))}
-      
-      {/* Show axis helper at each segment start */}
-      {segments.slice(0, 5).map(entity => {
-        const segment = entity.get(TrackSegment);
-        if (!segment || !segment.startPosition) return null;
-        
-        return (
-          <axesHelper 
-            key={`axis-${entity.id.toString()}`} 
-            position={segment.startPosition} 
-            args={[5]} 
-          />
-        );
-      })}
     </>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,123 @@
+/**
+ * Handling and looks of each ship
+ *
+ * Plain data, so new ships (and unlockable ones) can be added without
+ * touching the systems. Handling values end up in the Movement, MaxSpeed and
+ * VehicleProfile traits when the ship is spawned; the visuals are read by
+ * the player renderer.
+ */
+
+export interface VehicleHandling {
+  thrust: number;                       // Base engine thrust
+  damping: number;                      // Velocity kept per 1/60 s
+  maxSpeed: number;                     // Top speed
+  steeringSensitivity: number;          // Steering rate at full lock
+  forwardThrustMultiplier: number;      // Throttle thrust, as a multiple of thrust
+  reverseThrustMultiplier: number;      // Reverse thrust, as a multiple of thrust
+  brakeForceMultiplier: number;         // Braking, as a multiple of thrust
+  boostMultiplier: number;              // Extra thrust while boosting, as a multiple of thrust
+  groundFriction: number;               // Planar velocity lost per step on the road
+  grip: number;                         // Lateral velocity lost per second with the tires gripping
+  driftGrip: number;                    // Lateral velocity lost per second while drifting
+  driftSteeringMultiplier: number;      // Steering boost while drifting
+  flightThrustMultiplier: number;       // Throttle thrust in hover-flight, as a multiple of thrust
+  flightReverseThrustMultiplier: number; // Reverse thrust in hover-flight, as a multiple of thrust
+  flightBrakeForceMultiplier: number;   // Braking in hover-flight, as a multiple of thrust
+  flightBoostMultiplier: number;        // Extra thrust while boosting in hover-flight, as a multiple of thrust
+}
+
+export interface VehicleVisuals {
+  model: string;                        // File name in assets/ships
+  modelScale: number;
+  exhaustColor: string;
+  wheels: boolean;                      // Add the hover-wheel meshes under the hull
+}
+
+export interface VehicleProfileData {
+  id: string;
+  name: string;
+  description: string;
+  unlocked: boolean;                    // Available from the start
+  handling: VehicleHandling;
+  visuals: VehicleVisuals;
+}
+
+export const DEFAULT_VEHICLE_ID = 'fighter';
+
+export const VEHICLE_PROFILES: Record<string, VehicleProfileData> = {
+  fighter: {
+    id: 'fighter',
+    name: 'Fighter',
+    description: 'Balanced all-rounder',
+    unlocked: true,
+    handling: {
+      thrust: 10,
+      damping: 0.98,
+      maxSpeed: 30,
+      steeringSensitivity: 2.0,
+      forwardThrustMultiplier: 2.5,
+      reverseThrustMultiplier: 2.0,
+      brakeForceMultiplier: 1.5,
+      boostMultiplier: 2.0,
+      groundFriction: 0.02,
+      grip: 6,
+      driftGrip: 1.2,
+      driftSteeringMultiplier: 1.6,
+      flightThrustMultiplier: 2.5,
+      flightReverseThrustMultiplier: 1.0,
+      flightBrakeForceMultiplier: 1.5,
+      flightBoostMultiplier: 2.0,
+    },
+    visuals: {
+      model: 'fighter.glb',
+      modelScale: 0.5,
+      exhaustColor: '#ff4400',
+      wheels: true,
+    },
+  },
+  interceptor: {
+    id: 'interceptor',
+    name: 'Interceptor',
+    description: 'Faster and lighter, but slides more',
+    unlocked: false,
+    handling: {
+      thrust: 12,
+      damping: 0.985,
+      maxSpeed: 36,
+      steeringSensitivity: 1.8,
+      forwardThrustMultiplier: 2.5,
+      reverseThrustMultiplier: 1.5,
+      brakeForceMultiplier: 1.2,
+      boostMultiplier: 2.5,
+      groundFriction: 0.015,
+      grip: 4,
+      driftGrip: 0.9,
+      driftSteeringMultiplier: 1.8,
+      flightThrustMultiplier: 2.5,
+      flightReverseThrustMultiplier: 0.8,
+      flightBrakeForceMultiplier: 1.2,
+      flightBoostMultiplier: 2.5,
+    },
+    visuals: {
+      model: 'enemy.glb',
+      modelScale: 0.5,
+      exhaustColor: '#00aaff',
+      wheels: false,
+    },
+  },
+};
+
+/**
+ * Looks up a profile, falling back to the default ship for unknown ids
+ */
+export function getVehicleProfile(id: string = DEFAULT_VEHICLE_ID): VehicleProfileData {
+  return VEHICLE_PROFILES[id] ?? VEHICLE_PROFILES[DEFAULT_VEHICLE_ID];
+}
+
+/**
+ * Separates the values held by Movement and MaxSpeed from the rest of the
+ * handling, which goes in the VehicleProfile trait
+ */
+export function splitHandling({ thrust, damping, maxSpeed, ...profile }: VehicleHandling) {
+  return { movement: { thrust, damping, maxSpeed }, profile };
+}
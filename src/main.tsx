@@ -5,6 +5,10 @@ import './styles.css';
 import { App } from './app';
 import { WorldProvider } from 'koota/react';
 import { world } from './world';
+import { configureLogging } from './utils/logger';
+
+// ?log=debug or ?log=track:debug,physics:info turns up logging at startup
+configureLogging(window.location.search);
 
 // Create root & render
 ReactDOM.createRoot(document.getElementById('root')!).render(
@@ -0,0 +1,104 @@
+import { World } from 'koota';
+import { Scheduler } from './utils/scheduler';
+import { GameEvents } from './traits';
+import { updateTime, consumeFixedStep } from './systems/update-time';
+import { pollInput } from './systems/poll-input';
+import { respawnPlayers, updateLastSafePoint } from './systems/respawn';
+import { storePreviousTransforms } from './systems/store-previous-transforms';
+import { convertInputToMovement } from './systems/apply-input';
+import { convertFlightInputToMovement, switchControlMode } from './systems/hover-flight';
+import { applyTireGrip } from './systems/tire-grip';
+import { collectBoostPads, updateBoostEnergy } from './systems/boost';
+import { applyForce } from './systems/apply-force';
+import { moveEntities } from './systems/move-entities';
+import { updateGroundContact } from './systems/ground-contact';
+import { isRapierLoaded, stepRapierPhysics } from './systems/rapier-physics';
+import { updateTrackPosition } from './systems/update-track-position';
+import { limitSpeed } from './systems/limit-speed';
+import { updateTrackSegments } from './systems/track-manager';
+import { enforceTrackBoundaries } from './systems/track-boundary';
+import { updateRaceProgress } from './systems/update-race-progress';
+import { updateSpatialHashing } from './systems/update-spatial-hashing';
+import { cameraFollowPlayer } from './systems/camera-follow-player';
+import { syncView } from './systems/sync-view';
+import { applyCameraShake } from './systems/camera-shake';
+
+/**
+ * Creates a scheduler with all the game systems registered
+ * The fixed phases (physics, track, camera) are the simulation, so the game
+ * loop and the headless runner drive exactly the same systems.
+ */
+export function createGameScheduler(): Scheduler {
+	return new Scheduler()
+		// Input
+		.add('updateTime', updateTime, { phase: 'input', before: ['pollInput'] })
+		.add('pollInput', pollInput, { phase: 'input' })
+
+		// Physics updates, remembering where everything was for render interpolation first
+		.add('storePreviousTransforms', storePreviousTransforms, { phase: 'physics', before: ['convertInputToMovement'] })
+		.add('respawnPlayers', respawnPlayers, { phase: 'physics', after: ['storePreviousTransforms'], before: ['convertInputToMovement'] })
+		.add('switchControlMode', switchControlMode, { phase: 'physics', after: ['respawnPlayers'], before: ['convertInputToMovement', 'convertFlightInputToMovement'] })
+		.add('updateBoostEnergy', updateBoostEnergy, { phase: 'physics', after: ['switchControlMode'], before: ['convertInputToMovement', 'convertFlightInputToMovement'] })
+		// Ground-car and hover-flight handling, each entity is driven by one of them
+		.add('convertInputToMovement', convertInputToMovement, { phase: 'physics' })
+		.add('convertFlightInputToMovement', convertFlightInputToMovement, { phase: 'physics' })
+		.add('applyTireGrip', applyTireGrip, { phase: 'physics', after: ['convertInputToMovement'] })
+		.add('applyForce', applyForce, { phase: 'physics', after: ['applyTireGrip', 'convertFlightInputToMovement'] })
+		.add('moveEntities', moveEntities, { phase: 'physics', after: ['applyForce'] })
+		// One track lookup per vehicle and step, shared by the systems after it and the handling of the next step
+		.add('updateTrackPosition', updateTrackPosition, { phase: 'physics', after: ['moveEntities', 'stepRapierPhysics'] })
+		.add('updateGroundContact', updateGroundContact, { phase: 'physics', after: ['updateTrackPosition'] })
+		// Alternative to moveEntities and updateGroundContact, see setPhysicsBackend
+		.add('stepRapierPhysics', stepRapierPhysics, { phase: 'physics', after: ['applyForce'], before: ['limitSpeed'], enabled: false })
+		.add('limitSpeed', limitSpeed, { phase: 'physics', after: ['updateGroundContact'] })
+
+		// Track streaming, boundaries and lap timing
+		.add('updateTrackSegments', updateTrackSegments, { phase: 'track' })
+		.add('enforceTrackBoundaries', enforceTrackBoundaries, { phase: 'track', after: ['updateTrackSegments'] })
+		.add('collectBoostPads', collectBoostPads, { phase: 'track', after: ['enforceTrackBoundaries'] })
+		.add('updateRaceProgress', updateRaceProgress, { phase: 'track', after: ['enforceTrackBoundaries'] })
+		.add('updateLastSafePoint', updateLastSafePoint, { phase: 'track', after: ['enforceTrackBoundaries'] })
+		// Spatial hashing for optimized collision detection, last so it sees this step's positions
+		.add('updateSpatialHashing', updateSpatialHashing, { phase: 'track', after: ['updateRaceProgress'] })
+
+		// Camera updates
+		.add('cameraFollowPlayer', cameraFollowPlayer, { phase: 'camera' })
+
+		// Sync view state, interpolated between the last two steps
+		.add('syncView', syncView, { phase: 'view' })
+		.add('applyCameraShake', applyCameraShake, { phase: 'view', after: ['syncView'] });
+}
+
+export type PhysicsBackend = 'custom' | 'rapier';
+
+// Systems that integrate motion for each backend, the rest of the pipeline is shared
+const PHYSICS_BACKEND_SYSTEMS: Record<PhysicsBackend, string[]> = {
+	custom: ['moveEntities', 'updateGroundContact'],
+	rapier: ['stepRapierPhysics'],
+};
+
+/**
+ * Switches between the built-in integrator and the Rapier engine for moving entities
+ * Rapier has to be loaded first (see loadRapier).
+ */
+export function setPhysicsBackend(target: Scheduler, backend: PhysicsBackend): void {
+	if (backend === 'rapier' && !isRapierLoaded()) {
+		throw new Error('Rapier is not loaded, await loadRapier() before selecting it');
+	}
+
+	for (const [name, systems] of Object.entries(PHYSICS_BACKEND_SYSTEMS)) {
+		systems.forEach((system) => target.setEnabled(system, name === backend));
+	}
+}
+
+// Scheduler driven by the game loop, the debug UI reads its timings
+export const scheduler = createGameScheduler();
+
+/**
+ * Runs one frame of the game: input, due simulation steps and the view,
+ * then hands the frame's game events to their listeners
+ */
+export function tickGame(world: World) {
+	scheduler.tick(world, consumeFixedStep);
+	world.get(GameEvents)?.drain();
+}
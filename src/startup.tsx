@@ -2,6 +2,11 @@ import { useEffect, useState } from 'react';
 import { useWorld } from 'koota/react';
 import { actions } from './actions';
 import { Vector3 } from 'three';
+import { scheduler, setPhysicsBackend } from './pipeline';
+import { loadRapier } from './systems/rapier-physics';
+import { createLogger } from './utils/logger';
+
+const log = createLogger('game');
 
 /**
  * Initializes the world and spawns necessary entities
@@ -12,37 +17,41 @@ export function Startup({ initialCameraPosition }: { initialCameraPosition: [num
 
 	useEffect(() => {
 		if (world && !initialized) {
-			console.log("==========================================");
-			console.log("              GAME STARTUP                ");
-			console.log("==========================================");
+			log.info("Game startup");
+			
+			// A ?seed= query parameter reproduces a shared track
+			// and ?mode=circuit races laps on a closed loop instead of the endless track
+			const params = new URLSearchParams(window.location.search);
+			const seedParam = params.get('seed');
+			const seed = seedParam !== null && !isNaN(Number(seedParam)) ? Number(seedParam) : undefined;
+			const mode = params.get('mode') === 'circuit' ? 'circuit' : 'endless';
+			// ?vehicle= picks a ship from data/vehicle-profiles.ts
+			const vehicle = params.get('vehicle') ?? undefined;
+			
+			const start = () => {
+				try {
+					// Create the actions object with the world
+					const gameActions = actions(world);
+					
+					// Spawn the track, camera and player
+					gameActions.startGame({ seed, mode, vehicle, cameraPosition: initialCameraPosition });
+					
+					log.info("Game initialization complete");
+					
+					setInitialized(true);
+				} catch (error) {
+					log.error("Error during game initialization:", error);
+				}
+			};
 			
-			try {
-				// Create the actions object with the world
-				const gameActions = actions(world);
-				
-				// Create procedural track
-				console.log("Spawning procedural track");
-				const trackEntity = gameActions.spawnTrack();
-				console.log(`Track entity spawned: ${trackEntity?.id}`);
-				
-				// Camera position debugging
-				console.log(`Spawning camera at position: (${initialCameraPosition[0]}, ${initialCameraPosition[1]}, ${initialCameraPosition[2]})`);
-				
-				// Spawn camera using the actions API
-				const cameraEntity = gameActions.spawnCamera(initialCameraPosition);
-				console.log(`Camera spawned: ${cameraEntity?.id}`);
-				
-				// Spawn player using the actions API
-				console.log("Spawning player entity");
-				const playerEntity = gameActions.spawnPlayer();
-				console.log(`Player spawned: ${playerEntity?.id}`);
-				
-				console.log("Game initialization complete");
-				console.log("==========================================");
-				
-				setInitialized(true);
-			} catch (error) {
-				console.error("Error during game initialization:", error);
+			// ?physics=rapier moves vehicles with the Rapier engine, to compare with the built-in integrator
+			if (params.get('physics') === 'rapier') {
+				loadRapier()
+					.then(() => setPhysicsBackend(scheduler, 'rapier'))
+					.catch((error) => log.error("Could not load Rapier, using the built-in physics:", error))
+					.finally(start);
+			} else {
+				start();
 			}
 		}
 	}, [world, initialized, initialCameraPosition]);
@@ -1,13 +1,19 @@
 import { World } from 'koota';
-import { Movement } from '../traits';
+import { Movement, Time } from '../traits';
+
+const REFERENCE_RATE = 60; // Steps per second the force was tuned for
+const FORCE_DECAY = 0.1; // Fraction of the force lost every 1/60 s
 
 export function applyForce(world: World) {
+	const { delta } = world.get(Time)!;
+	const steps = delta * REFERENCE_RATE;
+
 	world.query(Movement).updateEach(([{ force, velocity }]) => {
-		velocity.add(force);
+		velocity.addScaledVector(force, steps);
 
 		// Damp force
 		if (force.length() > 0.01) {
-			force.multiplyScalar(1 - 0.1);
+			force.multiplyScalar(Math.pow(1 - FORCE_DECAY, steps));
 		} else {
 			force.setScalar(0);
 		}
@@ -1,108 +1,122 @@
-import { World } from 'koota';
-import { Input, Movement, Time, Transform } from '../traits';
+import { Entity, Not, World } from 'koota';
+import { BoostEnergy, Drift, GroundContact, HoverFlight, Input, Movement, Time, TrackPosition, Transform, VehicleProfile } from '../traits';
 import * as THREE from 'three';
+import { createTrackFrame, TrackFrame } from '../utils/track-curve';
 
 const MOUSE_SENSITIVITY = 0.004; // Maintained for optional mouse control
-const STEERING_SENSITIVITY = 2.0; // New sensitivity for keyboard steering
-const GRAVITY = new THREE.Vector3(0, -9.81, 0); // Gravity force
-const GROUND_LEVEL = 0.5; // Height of vehicle from ground
-const GROUND_FRICTION = 0.02; // Friction when on ground
 const REVERSE_SPEED_THRESHOLD = 0.5; // Threshold for applying reverse thrust
-const REVERSE_THRUST_MULTIPLIER = 2.0; // Strong reverse thrust for fast backwards movement
-const FORWARD_THRUST_MULTIPLIER = 2.5; // Increased forward thrust for faster forward movement
-const BRAKE_FORCE_MULTIPLIER = 1.5; // How much stronger braking is than regular thrust
+// Steering, thrust, braking and friction come from each vehicle's VehicleProfile
+
+const surfaceFrame = createTrackFrame();
+/**
+ * Finds the road frame under an entity, from its TrackPosition
+ * Falls back to the flat ground plane below the position when there is no track
+ */
+export function getSurfaceFrame(entity: Entity, position: THREE.Vector3): TrackFrame {
+	const track = entity.get(TrackPosition);
+
+	if (track?.onTrack) {
+		const { projection } = track;
+		surfaceFrame.position.copy(projection.position);
+		surfaceFrame.tangent.copy(projection.tangent);
+		surfaceFrame.up.copy(projection.normal);
+		surfaceFrame.right.copy(projection.right);
+		return surfaceFrame;
+	}
+
+	surfaceFrame.position.set(position.x, 0, position.z);
+	surfaceFrame.tangent.set(0, 0, -1);
+	surfaceFrame.up.set(0, 1, 0);
+	surfaceFrame.right.set(1, 0, 0);
+	return surfaceFrame;
+}
 
 /**
  * convertInputToMovement:
  * Applies vehicle-like controls for racing on a track
+ * Thrust and friction work in the plane of the road, so banked turns and
+ * hills behave like flat track. Riding on the surface, gravity and tilting
+ * with the road are handled by updateGroundContact.
+ * Handling comes from the vehicle's VehicleProfile. Lateral grip and
+ * drifting are handled by applyTireGrip, and entities in hover-flight by
+ * convertFlightInputToMovement instead.
  */
 export function convertInputToMovement(world: World) {
 	const { delta } = world.get(Time)!;
 
-	world.query(Input, Transform, Movement).updateEach(([input, transform, movement]) => {
+	world.query(Input, Transform, Movement, VehicleProfile, Not(HoverFlight)).updateEach(([input, transform, movement, profile], entity) => {
 		const { velocity, thrust, force } = movement;
 		
 		// Calculate current speed
 		const speed = velocity.length();
 		
-		// Calculate vehicle's current travel direction relative to its facing
+		// Road surface under the vehicle, as found by the last ground contact step
+		const contact = entity.get(GroundContact);
+		const up = contact?.normal ?? getSurfaceFrame(entity, transform.position).up;
+		const onGround = contact?.grounded ?? true;
+		
+		// Calculate vehicle's current travel direction relative to its facing,
+		// kept in the plane of the road so thrust follows banking and slopes
 		const forwardDir = new THREE.Vector3(0, 0, -1).applyEuler(transform.rotation);
+		forwardDir.addScaledVector(up, -forwardDir.dot(up)).normalize();
 		const velocityNormalized = speed > 0.01 ? velocity.clone().normalize() : new THREE.Vector3();
 		const movingForward = velocityNormalized.dot(forwardDir) > 0;
 		
-		// Apply steering (A/D keys or left/right arrows)
-		// Steering effect scales with speed for more realistic feel
-		const steeringFactor = Math.min(1, speed / 5);
+		// Apply steering (A/D keys, left/right arrows or a stick)
+		// Proportional to the input, and scales with speed for more realistic feel
+		const steeringFactor = Math.min(1, speed / 5) * (entity.get(Drift)?.active ? profile.driftSteeringMultiplier : 1);
 		
 		if (input.strafe !== 0) {
 			// Use strafe input for main steering
-			const steeringAmount = input.strafe * STEERING_SENSITIVITY * delta * steeringFactor;
+			const steeringAmount = input.strafe * profile.steeringSensitivity * delta * steeringFactor;
 			transform.rotation.y -= steeringAmount;
 		} else if (input.mouseDelta.x !== 0) {
 			// Fallback to mouse steering if no keyboard input
 			const mouseSteeringAmount = input.mouseDelta.x * MOUSE_SENSITIVITY * steeringFactor;
 			transform.rotation.y -= mouseSteeringAmount;
 		}
-		
-		// Keep vehicle level with the ground (minimal pitch and roll)
-		transform.rotation.x *= 0.9; // Gradually level pitch
-		transform.rotation.z *= 0.9; // Gradually level roll
+		// The mouse movement has been used by this step
+		input.mouseDelta.set(0, 0);
 		
 		// Handle forward movement
 		if (input.forward > 0) {
 			// Forward thrust with multiplier for faster movement
-			const throttleForce = forwardDir.clone().multiplyScalar(input.forward * thrust * FORWARD_THRUST_MULTIPLIER * delta);
+			const throttleForce = forwardDir.clone().multiplyScalar(input.forward * thrust * profile.forwardThrustMultiplier * delta);
 			force.add(throttleForce);
 		}
 		
-		// Handle braking and reverse
-		if (input.brake) {
+		// Handle braking and reverse, both proportional to how far the brake is pressed
+		if (input.brake > 0) {
 			if (speed > REVERSE_SPEED_THRESHOLD && movingForward) {
 				// Apply braking when moving forward at decent speed
-				const brakeForce = velocity.clone().normalize().negate().multiplyScalar(thrust * BRAKE_FORCE_MULTIPLIER * delta);
+				const brakeForce = velocity.clone().normalize().negate().multiplyScalar(input.brake * thrust * profile.brakeForceMultiplier * delta);
 				force.add(brakeForce);
 			} else {
 				// Apply reverse thrust - simplified to a single approach regardless of speed
 				// This mimics how forward movement works - just a single continuous thrust
 				
 				// Basic reverse thrust applied as a force - similar to forward movement
-				const reverseForce = forwardDir.clone().multiplyScalar(-thrust * REVERSE_THRUST_MULTIPLIER * delta);
+				const reverseForce = forwardDir.clone().multiplyScalar(-input.brake * thrust * profile.reverseThrustMultiplier * delta);
 				force.add(reverseForce);
 				
 				// Reduce friction during reverse to maintain high speeds
-				if (transform.position.y <= GROUND_LEVEL) {
+				if (onGround) {
 					const frictionMultiplier = 0.01; // Very low friction during reverse
-					const horizontalVelocity = new THREE.Vector3(velocity.x, 0, velocity.z);
-					const frictionForce = horizontalVelocity.clone().negate().multiplyScalar(GROUND_FRICTION * frictionMultiplier);
+					const planarVelocity = velocity.clone().addScaledVector(up, -velocity.dot(up));
+					const frictionForce = planarVelocity.negate().multiplyScalar(profile.groundFriction * frictionMultiplier);
 					velocity.add(frictionForce);
 				}
 			}
-		} else if (transform.position.y <= GROUND_LEVEL) {
-			// Apply normal ground contact and friction when not braking
-			
-			// Keep vehicle at ground level
-			transform.position.y = GROUND_LEVEL;
-			
-			// Apply normal ground friction (only to XZ plane)
-			const horizontalVelocity = new THREE.Vector3(velocity.x, 0, velocity.z);
-			const frictionForce = horizontalVelocity.clone().negate().multiplyScalar(GROUND_FRICTION);
+		} else if (onGround) {
+			// Apply normal ground friction when not braking (only within the road plane)
+			const planarVelocity = velocity.clone().addScaledVector(up, -velocity.dot(up));
+			const frictionForce = planarVelocity.negate().multiplyScalar(profile.groundFriction);
 			velocity.add(frictionForce);
-			
-			// Apply additional turning force for sharper cornering
-			if (input.strafe !== 0 && speed > 0.5) {
-				// Calculate steering force perpendicular to direction of travel
-				const steeringDir = new THREE.Vector3(forwardDir.z, 0, -forwardDir.x);
-				const turnForce = steeringDir.clone().multiplyScalar(input.strafe * 0.5 * delta * speed);
-				velocity.add(turnForce);
-			}
-		} else {
-			// Apply gravity when in air
-			velocity.add(GRAVITY.clone().multiplyScalar(delta));
 		}
 		
-		// Apply boost
-		if (input.boost) {
-			const boostForce = forwardDir.clone().multiplyScalar(thrust * 2 * delta);
+		// Apply boost, as long as there is boost energy
+		if (entity.get(BoostEnergy)?.active ?? input.boost) {
+			const boostForce = forwardDir.clone().multiplyScalar(thrust * profile.boostMultiplier * delta);
 			force.add(boostForce);
 		}
 	});
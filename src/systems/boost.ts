@@ -0,0 +1,81 @@
+import { World } from 'koota';
+import { BoostEnergy, Drift, GameEvents, Input, Movement, SpeedBoost, Time, TrackPosition, TrackSegment, Transform } from '../traits';
+import { TRACK_CONFIG } from '../utils/track-generator';
+import { createLogger } from '../utils/logger';
+
+const MIN_BOOST_ENERGY = 0.1; // Energy needed to start boosting, so an empty tank doesn't stutter
+const PAD_SPEED_BONUS = 15; // Raise of the speed cap from a boost pad
+const PAD_DURATION = 2; // Seconds the raised speed cap lasts
+const PAD_KICK = 8; // Speed added along the track when driving over a pad
+const PAD_ENERGY = 0.25; // Boost energy a pad gives
+const PAD_HEIGHT = 1.5; // Highest above the road a vehicle still touches a pad
+
+const log = createLogger('physics');
+
+/**
+ * updateBoostEnergy:
+ * Decides which vehicles boost this step and spends their energy
+ * Boosting needs the boost input and energy left in the BoostEnergy trait.
+ * The boost charge of a finished drift is added to the energy.
+ */
+export function updateBoostEnergy(world: World) {
+	const { delta } = world.get(Time)!;
+	const events = world.get(GameEvents);
+
+	world.query(Input, BoostEnergy).updateEach(([input, boost], entity) => {
+		// Bank the charge once the drift is over, like the drift score
+		const drift = entity.get(Drift);
+		if (drift && !drift.active && drift.charge > 0) {
+			boost.energy = Math.min(1, boost.energy + drift.charge);
+			entity.set(Drift, { charge: 0 });
+		}
+
+		const wasActive = boost.active;
+		boost.active = input.boost && boost.energy > 0 && (wasActive || boost.energy >= MIN_BOOST_ENERGY);
+		if (boost.active) {
+			boost.energy = Math.max(0, boost.energy - boost.drainRate * delta);
+		}
+
+		if (boost.active && !wasActive) {
+			events?.emit('boostStarted', { entity });
+		}
+	});
+}
+
+/**
+ * collectBoostPads:
+ * Triggers the boost pads vehicles drive over
+ * A pad raises the vehicle's speed cap for a while (see limitSpeed), gives
+ * it a kick along the track and tops up its boost energy.
+ */
+export function collectBoostPads(world: World) {
+	const { delta } = world.get(Time)!;
+	const events = world.get(GameEvents);
+
+	world.query(Transform, Movement, SpeedBoost, TrackPosition).updateEach(([transform, movement, speedBoost, { onTrack, projection }], entity) => {
+		speedBoost.time = Math.max(0, speedBoost.time - delta);
+
+		const pads = onTrack && projection.h <= PAD_HEIGHT
+			? projection.segment.get(TrackSegment)?.boostPads ?? []
+			: [];
+		const padIndex = pads.findIndex((pad) =>
+			Math.abs(projection.along - pad.along) <= TRACK_CONFIG.boostPadLength / 2 &&
+			Math.abs(projection.d - pad.offset) <= TRACK_CONFIG.boostPadWidth / 2
+		);
+
+		const pad = padIndex >= 0 ? `${projection.index}:${padIndex}` : '';
+		const entered = pad !== '' && pad !== speedBoost.lastPad;
+		speedBoost.lastPad = pad;
+		if (!entered) return;
+
+		speedBoost.bonus = PAD_SPEED_BONUS;
+		speedBoost.time = PAD_DURATION;
+		movement.velocity.addScaledVector(projection.tangent, PAD_KICK);
+
+		const boost = entity.get(BoostEnergy);
+		if (boost) entity.set(BoostEnergy, { energy: Math.min(1, boost.energy + PAD_ENERGY) });
+
+		log.debug(`Entity ${entity.id()} hit boost pad ${pad}`);
+		events?.emit('pickupCollected', { entity, pickup: 'boostPad', position: transform.position.clone() });
+	});
+}
@@ -34,6 +34,14 @@ const CAMERA_CONFIG = {
 let previousTargetPosition = new THREE.Vector3();
 let isFirstFrame = true;
 
+/**
+ * Forgets the smoothing state, so the next frame snaps to the player again
+ */
+export function resetCameraFollow() {
+	previousTargetPosition = new THREE.Vector3();
+	isFirstFrame = true;
+}
+
 export const cameraFollowPlayer = (world: World) => {
 	const player = world.queryFirst(IsPlayer, Transform, Movement);
 	if (!player) return;
@@ -59,9 +67,11 @@ export const cameraFollowPlayer = (world: World) => {
 	dynamicOffset.y -= CAMERA_CONFIG.speedEffect.heightDecrease * speedFactor;
 	dynamicOffset.z += CAMERA_CONFIG.speedEffect.distanceIncrease * speedFactor;
 	
-	// Apply player's rotation to the offset to get the world-space offset
+	// Apply player's heading to the offset to get the world-space offset
+	// (taken from the forward direction, as in flight the Euler angles mix pitch and roll into it)
+	const heading = Math.atan2(-playerForwardDir.x, -playerForwardDir.z);
 	const offsetRotated = dynamicOffset.clone().applyEuler(
-		new THREE.Euler(0, playerTransform.rotation.y, 0)
+		new THREE.Euler(0, heading, 0)
 	);
 	
 	// Calculate the target camera position by adding offset to player position
@@ -0,0 +1,42 @@
+import { World } from 'koota';
+import { CameraShake, GameEvents, IsCamera, IsPlayer, Ref, Time } from '../traits';
+
+const SHAKE_CONFIG = {
+	impactTrauma: 0.06, // Trauma added per unit of impact speed
+	scrapeTrauma: 0.002, // Trauma added per unit of scrape speed, every step of contact
+	decay: 1.5, // Trauma lost per second
+	maxOffset: 0.6, // Camera offset at full trauma
+	frequency: 25, // How fast the shake wobbles (radians per second)
+};
+
+/**
+ * applyCameraShake:
+ * Shakes the camera view when the player hits or scrapes a barrier
+ * Only the rendered camera is moved, after syncView, so the simulated
+ * camera and the rest of the game state are never touched.
+ */
+export function applyCameraShake(world: World) {
+	const { current } = world.get(Time)!;
+
+	// Collisions of this frame, before the events are drained
+	let added = 0;
+	for (const event of world.get(GameEvents)?.pending('collision') ?? []) {
+		if (!world.has(event.entity) || !event.entity.has(IsPlayer)) continue;
+		added += event.strength * (event.kind === 'impact' ? SHAKE_CONFIG.impactTrauma : SHAKE_CONFIG.scrapeTrauma);
+	}
+
+	const t = (current / 1000) * SHAKE_CONFIG.frequency;
+
+	world.query(IsCamera, Ref, CameraShake).updateEach(([view, shake]) => {
+		const elapsed = shake.lastTime > 0 ? Math.max(0, current - shake.lastTime) / 1000 : 0;
+		shake.lastTime = current;
+		shake.trauma = Math.min(1, Math.max(0, shake.trauma + added - SHAKE_CONFIG.decay * elapsed));
+		if (shake.trauma === 0) return;
+
+		const amount = shake.trauma * shake.trauma * SHAKE_CONFIG.maxOffset;
+		// Sums of sines at unrelated rates look random without being stored
+		view.position.x += amount * Math.sin(t * 1.0 + 0.3) * Math.cos(t * 0.71);
+		view.position.y += amount * Math.sin(t * 1.3 + 1.7) * Math.cos(t * 0.53);
+		view.rotation.z += amount * 0.05 * Math.sin(t * 0.9 + 2.1);
+	});
+}
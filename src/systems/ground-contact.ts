@@ -0,0 +1,95 @@
+import { Not, World } from 'koota';
+import { GroundContact, HoverFlight, Movement, Time, Transform } from '../traits';
+import * as THREE from 'three';
+import { getSurfaceFrame } from './apply-input';
+import { createLogger } from '../utils/logger';
+
+const GRAVITY = 9.81; // Gravity pulls towards the road surface (along -up)
+export const RIDE_HEIGHT = 0.5; // Height of the vehicle above the road surface
+export const SNAP_DISTANCE = 0.3; // How far above ride height a grounded vehicle is still pulled down, e.g. over crests
+export const LIFTOFF_SPEED = 2; // Speed away from the surface at which the vehicle takes off instead
+const ALIGN_RATE = 12; // How fast pitch and roll follow the surface on the ground (per second)
+const AIR_ALIGN_RATE = 1.5; // Same while airborne, so jumps keep their attitude for a while
+const HARD_LANDING_SPEED = 8; // Landings faster than this are logged
+
+const log = createLogger('physics');
+
+const offset = new THREE.Vector3();
+const forwardDir = new THREE.Vector3();
+const sideDir = new THREE.Vector3();
+const backDir = new THREE.Vector3();
+const basis = new THREE.Matrix4();
+const current = new THREE.Quaternion();
+const target = new THREE.Quaternion();
+
+/**
+ * Tilts a vehicle towards the surface, keeping its heading
+ * Grounded vehicles follow the surface quickly, airborne ones drift towards it.
+ */
+export function alignToSurface(rotation: THREE.Euler, up: THREE.Vector3, grounded: boolean, delta: number): void {
+	forwardDir.set(0, 0, -1).applyEuler(rotation);
+	forwardDir.addScaledVector(up, -forwardDir.dot(up));
+	if (forwardDir.lengthSq() < 1e-6) return;
+	backDir.copy(forwardDir).normalize().negate();
+	sideDir.crossVectors(up, backDir);
+	target.setFromRotationMatrix(basis.makeBasis(sideDir, up, backDir));
+
+	const rate = grounded ? ALIGN_RATE : AIR_ALIGN_RATE;
+	current.setFromEuler(rotation).slerp(target, 1 - Math.exp(-rate * delta));
+	rotation.setFromQuaternion(current, rotation.order);
+}
+
+/**
+ * updateGroundContact:
+ * Keeps ground vehicles on the track surface
+ * Samples the surface height and normal under the vehicle, holds it at ride
+ * height (following dips and crests) and tilts it to match the surface. A
+ * vehicle moving away from the surface fast enough takes off; it then falls
+ * under gravity until it lands, which is flagged for one step.
+ */
+export function updateGroundContact(world: World) {
+	const { delta } = world.get(Time)!;
+
+	world.query(Transform, Movement, GroundContact, Not(HoverFlight)).updateEach(([transform, movement, contact], entity) => {
+		const { velocity } = movement;
+		const surface = getSurfaceFrame(entity, transform.position);
+		const up = surface.up;
+
+		const height = offset.subVectors(transform.position, surface.position).dot(up);
+		const normalSpeed = velocity.dot(up);
+		const wasGrounded = contact.grounded;
+
+		// Grounded vehicles stick over small bumps, airborne ones only land on contact
+		const reach = RIDE_HEIGHT + (wasGrounded ? SNAP_DISTANCE : 0);
+		contact.grounded = height <= reach && normalSpeed < LIFTOFF_SPEED;
+		contact.landed = contact.grounded && !wasGrounded;
+
+		if (contact.grounded) {
+			transform.position.addScaledVector(up, RIDE_HEIGHT - height);
+
+			if (contact.landed) {
+				// Touching down absorbs the speed into the surface
+				contact.landingSpeed = Math.max(0, -normalSpeed);
+				if (contact.landingSpeed > HARD_LANDING_SPEED) {
+					log.debug(`Entity ${entity.id()} landed at ${contact.landingSpeed.toFixed(1)} after ${contact.airTime.toFixed(2)}s`);
+				}
+				velocity.addScaledVector(up, -normalSpeed);
+			} else {
+				// Following the surface keeps the speed, only its direction changes
+				const speed = velocity.length();
+				velocity.addScaledVector(up, -normalSpeed);
+				if (velocity.lengthSq() > 0) velocity.setLength(speed);
+			}
+
+			contact.airTime = 0;
+		} else {
+			velocity.addScaledVector(up, -GRAVITY * delta);
+			contact.airTime += delta;
+		}
+
+		contact.height = contact.grounded ? RIDE_HEIGHT : height;
+		contact.normal.copy(up);
+
+		alignToSurface(transform.rotation, up, contact.grounded, delta);
+	});
+}
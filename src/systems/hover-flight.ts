@@ -0,0 +1,121 @@
+import { Entity, World } from 'koota';
+import { BoostEnergy, HoverFlight, Input, Movement, Time, Transform, VehicleProfile } from '../traits';
+import * as THREE from 'three';
+import { getSurfaceFrame } from './apply-input';
+import { createLogger } from '../utils/logger';
+
+const MOUSE_SENSITIVITY = 0.004; // Radians per pixel of mouse movement, as for ground steering
+const MIN_CLEARANCE = 0.5; // Closest the vehicle may get to the road surface
+// Thrust, braking and boost come from each vehicle's VehicleProfile
+
+const log = createLogger('physics');
+
+const orientation = new THREE.Quaternion();
+const turn = new THREE.Quaternion();
+const localRotation = new THREE.Euler();
+const forwardDir = new THREE.Vector3();
+const rightDir = new THREE.Vector3();
+const offset = new THREE.Vector3();
+
+/**
+ * Switches an entity between ground-car and hover-flight handling
+ */
+export function setFlightMode(entity: Entity, enabled: boolean): void {
+	if (enabled === entity.has(HoverFlight)) return;
+
+	if (enabled) {
+		entity.add(HoverFlight);
+	} else {
+		entity.remove(HoverFlight);
+	}
+	log.info(`Entity ${entity.id()} switched to ${enabled ? 'hover-flight' : 'ground'} mode`);
+}
+
+/**
+ * switchControlMode:
+ * Handles the toggle flight input (F) by switching the entity's handling mode
+ */
+export function switchControlMode(world: World) {
+	const toggled: Entity[] = [];
+
+	world.query(Input).updateEach(([input], entity) => {
+		if (!input.toggleFlight) return;
+		input.toggleFlight = false;
+		toggled.push(entity);
+	});
+
+	// Adding and removing traits changes the queries, so it waits until after iterating
+	for (const entity of toggled) {
+		setFlightMode(entity, !entity.has(HoverFlight));
+	}
+}
+
+/**
+ * convertFlightInputToMovement:
+ * 6-DOF handling for entities in hover-flight
+ * The mouse pitches and yaws around the vehicle's own axes, roll input rolls
+ * it and strafe thrusts sideways. Unlike the car nothing levels the vehicle
+ * out, but a hover field keeps it from sinking into the road.
+ * Thrust, braking and boost use the flight values of the VehicleProfile.
+ */
+export function convertFlightInputToMovement(world: World) {
+	const { delta } = world.get(Time)!;
+
+	world.query(Input, Transform, Movement, HoverFlight, VehicleProfile).updateEach(([input, transform, movement, flight, profile], entity) => {
+		const { velocity, thrust, force } = movement;
+
+		// Pitch, yaw and roll in the vehicle's own frame
+		orientation.setFromEuler(transform.rotation);
+		localRotation.set(
+			-input.mouseDelta.y * MOUSE_SENSITIVITY * flight.pitchSensitivity,
+			-input.mouseDelta.x * MOUSE_SENSITIVITY * flight.yawSensitivity,
+			-input.roll * flight.rollSpeed * delta
+		);
+		orientation.multiply(turn.setFromEuler(localRotation));
+		// The mouse movement has been used by this step
+		input.mouseDelta.set(0, 0);
+
+		// Banking turns the vehicle around the road's up axis, like an aircraft
+		const surface = getSurfaceFrame(entity, transform.position);
+		rightDir.set(1, 0, 0).applyQuaternion(orientation);
+		const bank = rightDir.dot(surface.up);
+		orientation.premultiply(turn.setFromAxisAngle(surface.up, bank * flight.bankTurnRate * delta));
+		orientation.normalize();
+		transform.rotation.setFromQuaternion(orientation, transform.rotation.order);
+
+		forwardDir.set(0, 0, -1).applyQuaternion(orientation);
+		rightDir.set(1, 0, 0).applyQuaternion(orientation);
+
+		// Thrust along the nose and sideways, both proportional to the input
+		if (input.forward > 0) {
+			force.addScaledVector(forwardDir, input.forward * thrust * profile.flightThrustMultiplier * delta);
+		}
+		if (input.strafe !== 0) {
+			force.addScaledVector(rightDir, input.strafe * thrust * flight.strafeThrust * delta);
+		}
+
+		// Brake against the direction of travel, or back up when nearly stopped
+		if (input.brake > 0) {
+			if (velocity.dot(forwardDir) > 0.5) {
+				force.addScaledVector(velocity.clone().normalize(), -input.brake * thrust * profile.flightBrakeForceMultiplier * delta);
+			} else {
+				force.addScaledVector(forwardDir, -input.brake * thrust * profile.flightReverseThrustMultiplier * delta);
+			}
+		}
+
+		if (entity.get(BoostEnergy)?.active ?? input.boost) {
+			force.addScaledVector(forwardDir, thrust * profile.flightBoostMultiplier * delta);
+		}
+
+		// Hover field: push back up below the hover height, never closer than the minimum clearance
+		const height = offset.subVectors(transform.position, surface.position).dot(surface.up);
+		if (height < flight.hoverHeight) {
+			velocity.addScaledVector(surface.up, (flight.hoverHeight - height) * flight.hoverStiffness * delta);
+		}
+		if (height < MIN_CLEARANCE) {
+			transform.position.addScaledVector(surface.up, MIN_CLEARANCE - height);
+			const normalSpeed = velocity.dot(surface.up);
+			if (normalSpeed < 0) velocity.addScaledVector(surface.up, -normalSpeed);
+		}
+	});
+}
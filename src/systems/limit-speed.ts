@@ -1,9 +1,12 @@
 import { World } from 'koota';
-import { Movement, MaxSpeed } from '../traits';
+import { Movement, MaxSpeed, SpeedBoost } from '../traits';
 
 export function limitSpeed(world: World) {
 	// Query the relevant entities
-	world.query(Movement, MaxSpeed).updateEach(([{ velocity }, { maxSpeed }]) => {
-		velocity.clampLength(0, maxSpeed)
+	world.query(Movement, MaxSpeed).updateEach(([{ velocity }, { maxSpeed }], entity) => {
+		// Boost pads raise the cap for a while
+		const speedBoost = entity.get(SpeedBoost);
+		const bonus = speedBoost && speedBoost.time > 0 ? speedBoost.bonus : 0;
+		velocity.clampLength(0, maxSpeed + bonus)
     });
 }
@@ -1,6 +1,8 @@
 import { World } from 'koota';
 import { Transform, Movement, Time } from '../traits';
 
+const REFERENCE_RATE = 60; // Steps per second the damping factors were tuned for
+
 export function moveEntities(world: World) {
 	// Get the delta time from the world clock
 	const { delta } = world.get(Time)!;
@@ -15,7 +17,8 @@ export function moveEntities(world: World) {
 		position.y += velocity.y * delta;
 		position.z += velocity.z * delta;
 
-		// Damp the velocity
-		velocity.multiplyScalar(damping);
+		// Damp the velocity, damping is given per 1/60 s so it decays the
+		// same amount per second whatever the step length
+		velocity.multiplyScalar(Math.pow(damping, delta * REFERENCE_RATE));
 	});
 }
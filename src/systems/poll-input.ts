@@ -1,22 +1,33 @@
 import { World } from 'koota';
 import { Input, IsPlayer } from '../traits';
+import { createLogger } from '../utils/logger';
+import { getBindingId, getBindings, getBoundActions, INPUT_ACTIONS, InputAction, InputBinding, ONE_SHOT_ACTIONS } from '../utils/input-bindings';
+import { GAMEPAD_CONFIG, getConnectedGamepads, readGamepadAxis, readGamepadButton } from '../utils/gamepad';
+import { getTouchInput, getTouchSteer, isTouchDevice } from '../utils/touch-input';
 
-// We'll keep a simple in-memory state of the keys and mouse movement.
+const log = createLogger('input');
+
+// Controls currently held down, by binding id
+const pressed = new Set<string>();
+// One-shot actions pressed since the last poll
+const triggered = new Set<InputAction>();
+// One-shot actions held on a gamepad at the last poll, to fire on the press only
+const gamepadHeld = new Set<InputAction>();
+
+// Raw mouse movement and pointer lock, which are not rebindable
 const state = {
-	forward: 0, // +1 when W is down
-	strafe: 0, // +1 when D is down, -1 when A is down
-	brake: false, // true when S is down
-	boost: false, // true when SPACE is down
-	roll: 0, // +1 when R is down, -1 when Q is down
 	mouseDeltaX: 0,
 	mouseDeltaY: 0,
 	pointerLocked: false,
 };
 
+// Touch screens steer with the on-screen controls and have no pointer to lock
+const pointerLockAllowed = !isTouchDevice();
+
 // Function to request pointer lock
 const requestPointerLock = () => {
 	const canvas = document.querySelector('canvas');
-	if (canvas && !state.pointerLocked) {
+	if (canvas && pointerLockAllowed && !state.pointerLocked) {
 		canvas.requestPointerLock =
 			canvas.requestPointerLock ||
 			(canvas as any).mozRequestPointerLock ||
@@ -32,111 +43,176 @@ const handlePointerLockChange = () => {
 		document.pointerLockElement === document.querySelector('canvas') ||
 		(document as any).mozPointerLockElement === document.querySelector('canvas') ||
 		(document as any).webkitPointerLockElement === document.querySelector('canvas');
+	log.debug(`Pointer ${state.pointerLocked ? 'locked' : 'released'}`);
 };
 
-// Set up pointer lock event listeners
-document.addEventListener('pointerlockchange', handlePointerLockChange);
-document.addEventListener('mozpointerlockchange', handlePointerLockChange);
-document.addEventListener('webkitpointerlockchange', handlePointerLockChange);
-
-// Listen for key presses
-window.addEventListener('keydown', (e) => {
-	switch (e.key.toLowerCase()) {
-		case 'w':
-		case 'arrowup':
-			state.forward = 1;
-			break;
-		case 's':
-		case 'arrowdown':
-			state.brake = true;
-			break;
-		case 'a':
-		case 'arrowleft':
-			state.strafe = -1;
-			break;
-		case 'd':
-		case 'arrowright':
-			state.strafe = 1;
-			break;
-		case ' ':
-			state.boost = true;
-			break;
-		case 'q':
-			state.roll = -1; // Roll left
-			break;
-		case 'r':
-			state.roll = 1; // Roll right
-			break;
+// Records a control going down and fires any one-shot actions bound to it
+const press = (binding: InputBinding, repeat: boolean) => {
+	pressed.add(getBindingId(binding));
+	const actions = getBoundActions(binding);
+
+	if (!repeat) {
+		for (const action of actions) {
+			if (ONE_SHOT_ACTIONS.includes(action)) {
+				triggered.add(action);
+				log.debug(`${action} triggered`);
+			}
+		}
 	}
 
-	// Only request pointer lock on game-relevant keys
-	if (['w', 's', 'a', 'd', 'arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'q', 'r'].includes(e.key.toLowerCase())) {
+	// Only request pointer lock for controls that drive the car
+	if (actions.some((action) => !ONE_SHOT_ACTIONS.includes(action))) {
 		requestPointerLock();
 	}
-});
-
-// Listen for mouse clicks to request pointer lock
-window.addEventListener('click', () => {
-	requestPointerLock();
-});
-
-window.addEventListener('keyup', (e) => {
-	switch (e.key.toLowerCase()) {
-		case 'w':
-		case 'arrowup':
-			state.forward = 0;
-			break;
-		case 's':
-		case 'arrowdown':
-			state.brake = false;
-			break;
-		case 'a':
-		case 'arrowleft':
-			if (state.strafe === -1) state.strafe = 0; // Only reset if left key was pressed
-			break;
-		case 'd':
-		case 'arrowright':
-			if (state.strafe === 1) state.strafe = 0; // Only reset if right key was pressed
-			break;
-		case ' ':
-			state.boost = false;
-			break;
-		case 'q':
-			if (state.roll === -1) state.roll = 0; // Only reset if this key caused the roll
-			break;
-		case 'r':
-			if (state.roll === 1) state.roll = 0; // Only reset if this key caused the roll
-			break;
-	}
-});
+};
+
+const handleKeyDown = (e: KeyboardEvent) => {
+	press({ device: 'keyboard', key: e.key.toLowerCase() }, e.repeat);
+};
+
+const handleKeyUp = (e: KeyboardEvent) => {
+	pressed.delete(getBindingId({ device: 'keyboard', key: e.key.toLowerCase() }));
+};
 
-// Listen for mouse movement
-window.addEventListener('mousemove', (e) => {
+const handleMouseDown = (e: MouseEvent) => {
+	press({ device: 'mouse', button: e.button }, false);
+};
+
+const handleMouseUp = (e: MouseEvent) => {
+	pressed.delete(getBindingId({ device: 'mouse', button: e.button }));
+};
+
+// Releases everything when the window loses focus, as the key ups go elsewhere
+const handleBlur = () => {
+	pressed.clear();
+};
+
+// Clicking the canvas requests pointer lock
+const handleClick = (e: MouseEvent) => {
+	if (e.target instanceof HTMLCanvasElement) requestPointerLock();
+};
+
+// Handle mouse movement
+const handleMouseMove = (e: MouseEvent) => {
 	// Only accumulate movement deltas if pointer is locked
 	if (state.pointerLocked) {
 		// Accumulate movement deltas
 		state.mouseDeltaX += e.movementX;
 		state.mouseDeltaY += e.movementY;
 	}
-});
+};
+
+/**
+ * Attaches the keyboard, mouse and pointer lock listeners
+ * Nothing is registered at import time, so the systems can run without a DOM.
+ * @returns Function that removes the listeners again
+ */
+export function attachInputListeners(): () => void {
+	document.addEventListener('pointerlockchange', handlePointerLockChange);
+	document.addEventListener('mozpointerlockchange', handlePointerLockChange);
+	document.addEventListener('webkitpointerlockchange', handlePointerLockChange);
+	window.addEventListener('keydown', handleKeyDown);
+	window.addEventListener('keyup', handleKeyUp);
+	window.addEventListener('mousedown', handleMouseDown);
+	window.addEventListener('mouseup', handleMouseUp);
+	window.addEventListener('blur', handleBlur);
+	window.addEventListener('click', handleClick);
+	window.addEventListener('mousemove', handleMouseMove);
+
+	return () => {
+		document.removeEventListener('pointerlockchange', handlePointerLockChange);
+		document.removeEventListener('mozpointerlockchange', handlePointerLockChange);
+		document.removeEventListener('webkitpointerlockchange', handlePointerLockChange);
+		window.removeEventListener('keydown', handleKeyDown);
+		window.removeEventListener('keyup', handleKeyUp);
+		window.removeEventListener('mousedown', handleMouseDown);
+		window.removeEventListener('mouseup', handleMouseUp);
+		window.removeEventListener('blur', handleBlur);
+		window.removeEventListener('click', handleClick);
+		window.removeEventListener('mousemove', handleMouseMove);
+		pressed.clear();
+	};
+}
+
+/**
+ * Value of a control in [0, 1], the strongest over all connected gamepads
+ */
+function readBinding(binding: InputBinding, gamepads: Gamepad[]): number {
+	switch (binding.device) {
+		case 'keyboard':
+		case 'mouse':
+			return pressed.has(getBindingId(binding)) ? 1 : 0;
+		case 'gamepad':
+			return gamepads.reduce((value, gamepad) => Math.max(value, readGamepadButton(gamepad, binding.button)), 0);
+		case 'gamepadAxis':
+			return gamepads.reduce((value, gamepad) => Math.max(value, readGamepadAxis(gamepad, binding.axis, binding.direction)), 0);
+	}
+}
+
+/**
+ * How strongly each action is held, the strongest of its controls
+ * Keys and buttons give 0 or 1, sticks and triggers anything in between.
+ */
+function readActions(): Record<InputAction, number> {
+	const gamepads = getConnectedGamepads();
+	const bindings = getBindings();
+	const values = {} as Record<InputAction, number>;
+
+	for (const action of INPUT_ACTIONS) {
+		values[action] = bindings[action].reduce((value, binding) => Math.max(value, readBinding(binding, gamepads)), 0);
+	}
+
+	// Gamepads are polled rather than evented, so one-shot presses are found by edge
+	for (const action of ONE_SHOT_ACTIONS) {
+		const gamepadValue = bindings[action]
+			.filter((binding) => binding.device === 'gamepad' || binding.device === 'gamepadAxis')
+			.reduce((value, binding) => Math.max(value, readBinding(binding, gamepads)), 0);
+		const held = gamepadValue > GAMEPAD_CONFIG.pressThreshold;
+
+		if (held && !gamepadHeld.has(action)) triggered.add(action);
+		if (held) gamepadHeld.add(action);
+		else gamepadHeld.delete(action);
+	}
+
+	return values;
+}
 
 /**
  * pollInput system:
- * Pushes our key/mouse state into each player entity's Input component.
+ * Maps keyboard, mouse and gamepad controls to actions through the bindings,
+ * merges in the on-screen touch controls and pushes them, with the mouse
+ * movement, into each player entity's Input component.
  */
 export function pollInput(world: World) {
+	const actions = readActions();
+	const touch = getTouchInput();
+	const forward = Math.max(actions.forward, touch.throttle);
+	const strafe = Math.max(-1, Math.min(1, actions.steerRight - actions.steerLeft + getTouchSteer()));
+	const roll = actions.rollRight - actions.rollLeft;
+	const brake = Math.max(actions.brake, touch.brake);
+	const boost = actions.boost > GAMEPAD_CONFIG.pressThreshold || touch.boost;
+	const drift = actions.drift > GAMEPAD_CONFIG.pressThreshold;
+	const respawn = triggered.has('respawn');
+	const toggleFlight = triggered.has('toggleFlight');
+
 	world.query(IsPlayer, Input).updateEach(([input]) => {
-		// Transfer keyboard/boost/brake state
-		input.forward = state.forward;
-		input.strafe = state.strafe;
-		input.boost = state.boost;
-		input.brake = state.brake;
-		input.roll = state.roll;
-		// Copy mouse delta
-		input.mouseDelta.set(state.mouseDeltaX, state.mouseDeltaY);
+		input.forward = forward;
+		input.strafe = strafe;
+		input.boost = boost;
+		input.drift = drift;
+		input.brake = brake;
+		input.roll = roll;
+		// Kept until a simulation step has handled it
+		input.respawn = input.respawn || respawn;
+		input.toggleFlight = input.toggleFlight || toggleFlight;
+		// Mouse movement adds up until a simulation step uses it, so frames
+		// without a step lose nothing and frames with several don't repeat it
+		input.mouseDelta.x += state.mouseDeltaX;
+		input.mouseDelta.y += state.mouseDeltaY;
 	});
 
-	// Reset the mouse delta after we've used it this frame
+	// Reset the mouse delta and one-shot actions now they've been handed to the Input trait
 	state.mouseDeltaX = 0;
 	state.mouseDeltaY = 0;
+	triggered.clear();
 }
@@ -0,0 +1,202 @@
+import { Entity, Not, World } from 'koota';
+import type * as Rapier from '@dimforge/rapier3d-compat';
+import * as THREE from 'three';
+import { GroundContact, HoverFlight, Movement, RapierState, Time, TrackSegment, Transform } from '../traits';
+import { alignToSurface, LIFTOFF_SPEED, RIDE_HEIGHT, SNAP_DISTANCE } from './ground-contact';
+import { createBarrierGeometry, createTrackRibbonGeometry, sampleCenterline } from '../utils/track-mesh';
+import { createLogger } from '../utils/logger';
+
+const GRAVITY = 9.81;
+const REFERENCE_RATE = 60; // Steps per second Movement.damping was tuned for
+const COLLIDER_DIVISIONS = 24; // Centreline samples per segment, as for the rendered road
+const BARRIER_HEIGHT = 1.5; // Same walls as the rendered barriers
+const CONTACT_TOLERANCE = 0.05; // Slack in the ride height for a body resting on the road
+const GROUND_PROBE_LENGTH = 50; // Longest ray used to measure the height of an airborne vehicle
+
+const log = createLogger('physics');
+
+type RapierModule = typeof Rapier.default;
+
+// The WebAssembly module is loaded once and shared, each world keeps its simulation in RapierState
+let rapier: RapierModule | null = null;
+
+const up = new THREE.Vector3();
+
+/**
+ * Loads the Rapier WebAssembly module
+ * Only fetched when the Rapier backend is picked, so the built-in physics
+ * does not pay for it.
+ */
+export async function loadRapier(): Promise<void> {
+	if (rapier) return;
+
+	const loaded = await import('@dimforge/rapier3d-compat');
+	await loaded.default.init();
+	rapier = loaded.default;
+	log.info('Rapier physics loaded');
+}
+
+export function isRapierLoaded(): boolean {
+	return rapier !== null;
+}
+
+/**
+ * Frees a world's Rapier simulation, its bodies and colliders are rebuilt on the next step
+ * @param world World instance
+ */
+export function resetRapierPhysics(world: World): void {
+	const state = world.get(RapierState);
+	if (!state) return;
+
+	state.physics?.free();
+	state.physics = null;
+	state.bodies.clear();
+	state.trackColliders.clear();
+}
+
+function createTrimesh(RAPIER: RapierModule, geometry: THREE.BufferGeometry): Rapier.ColliderDesc {
+	const vertices = geometry.getAttribute('position').array as Float32Array;
+	const indices = Uint32Array.from(geometry.getIndex()!.array);
+	geometry.dispose();
+	// Without FIX_INTERNAL_EDGES the vehicle bumps over the edges between triangles of the flat road
+	return RAPIER.ColliderDesc.trimesh(vertices, indices, RAPIER.TriMeshFlags.FIX_INTERNAL_EDGES).setFriction(0);
+}
+
+/**
+ * Gives every track segment trimesh colliders for its road and barrier walls,
+ * built from the same geometry as the rendered track, and drops the colliders
+ * of segments that were streamed out
+ */
+function syncTrackColliders(world: World, physics: Rapier.World, RAPIER: RapierModule): void {
+	const { trackColliders } = world.get(RapierState)!;
+	const segments = new Set<Entity>();
+
+	for (const entity of world.query(TrackSegment)) {
+		segments.add(entity);
+		if (trackColliders.has(entity)) continue;
+
+		const { curve, width } = entity.get(TrackSegment)!;
+		if (curve.knots.length < 2) continue;
+
+		const samples = sampleCenterline(curve, COLLIDER_DIVISIONS);
+		trackColliders.set(entity, [
+			createTrackRibbonGeometry(samples, width),
+			createBarrierGeometry(samples, width, 'left', BARRIER_HEIGHT),
+			createBarrierGeometry(samples, width, 'right', BARRIER_HEIGHT),
+		].map((geometry) => physics.createCollider(createTrimesh(RAPIER, geometry))));
+	}
+
+	for (const [entity, colliders] of trackColliders) {
+		if (segments.has(entity)) continue;
+		colliders.forEach((collider) => physics.removeCollider(collider, false));
+		trackColliders.delete(entity);
+	}
+}
+
+/**
+ * Vehicles are frictionless balls that can't rotate, hovering at ride height
+ * Steering and grip stay with the handling systems, which set the rotation
+ * and velocity directly.
+ */
+function createVehicleBody(physics: Rapier.World, RAPIER: RapierModule, position: THREE.Vector3): Rapier.RigidBody {
+	const body = physics.createRigidBody(
+		RAPIER.RigidBodyDesc.dynamic()
+			.setTranslation(position.x, position.y, position.z)
+			.lockRotations()
+			.setCcdEnabled(true)
+	);
+	physics.createCollider(RAPIER.ColliderDesc.ball(RIDE_HEIGHT).setFriction(0).setRestitution(0), body);
+	return body;
+}
+
+/**
+ * stepRapierPhysics:
+ * Moves entities with the Rapier engine instead of moveEntities and
+ * updateGroundContact (see setPhysicsBackend)
+ * The koota traits stay the source of truth: positions and velocities are
+ * copied into the rigid bodies before the step and back afterwards, so
+ * respawns, barriers and handling keep working unchanged. Ground contact
+ * comes from a ray cast down onto the track colliders.
+ */
+export function stepRapierPhysics(world: World) {
+	if (!rapier) return;
+	const RAPIER = rapier;
+	const { delta } = world.get(Time)!;
+	if (delta <= 0) return;
+
+	const state = world.get(RapierState)!;
+	if (!state.physics) {
+		state.physics = new RAPIER.World({ x: 0, y: -GRAVITY, z: 0 });
+		log.debug('Created Rapier world');
+	}
+	const { physics, bodies } = state;
+
+	syncTrackColliders(world, physics, RAPIER);
+
+	// Copy the simulation state into the bodies
+	const moving = new Set<Entity>();
+	world.query(Transform, Movement).updateEach(([{ position }, { velocity, damping }], entity) => {
+		moving.add(entity);
+
+		let body = bodies.get(entity);
+		if (!body) {
+			body = createVehicleBody(physics, RAPIER, position);
+			bodies.set(entity, body);
+		}
+
+		body.setTranslation(position, true);
+		body.setLinvel(velocity, true);
+		// Damping is a factor per 1/60 s, Rapier wants a rate per second
+		body.setLinearDamping(-Math.log(Math.max(damping, 1e-3)) * REFERENCE_RATE);
+		// Hover-flight has its own hover field
+		body.setGravityScale(entity.has(HoverFlight) ? 0 : 1, true);
+	});
+
+	for (const [entity, body] of bodies) {
+		if (moving.has(entity)) continue;
+		physics.removeRigidBody(body);
+		bodies.delete(entity);
+	}
+
+	physics.timestep = delta;
+	physics.step();
+
+	// And the result back
+	world.query(Transform, Movement).updateEach(([{ position }, { velocity }], entity) => {
+		const body = bodies.get(entity)!;
+		const translation = body.translation();
+		const linvel = body.linvel();
+		position.set(translation.x, translation.y, translation.z);
+		velocity.set(linvel.x, linvel.y, linvel.z);
+	});
+
+	world.query(Transform, Movement, GroundContact, Not(HoverFlight)).updateEach(([transform, { velocity }, contact], entity) => {
+		up.copy(contact.normal);
+		const ray = new RAPIER.Ray(transform.position, { x: -up.x, y: -up.y, z: -up.z });
+		const hit = physics.castRayAndGetNormal(ray, GROUND_PROBE_LENGTH, true, undefined, undefined, undefined, bodies.get(entity));
+
+		const normalSpeed = velocity.dot(up);
+		const wasGrounded = contact.grounded;
+		const reach = RIDE_HEIGHT + CONTACT_TOLERANCE + (wasGrounded ? SNAP_DISTANCE : 0);
+
+		contact.grounded = !!hit && hit.timeOfImpact <= reach && normalSpeed < LIFTOFF_SPEED;
+		contact.landed = contact.grounded && !wasGrounded;
+
+		if (hit) {
+			contact.height = hit.timeOfImpact;
+			if (contact.grounded) {
+				contact.normal.set(hit.normal.x, hit.normal.y, hit.normal.z);
+				if (contact.normal.dot(up) < 0) contact.normal.negate();
+			}
+		}
+
+		if (contact.grounded) {
+			if (contact.landed) contact.landingSpeed = Math.max(0, -normalSpeed);
+			contact.airTime = 0;
+		} else {
+			contact.airTime += delta;
+		}
+
+		alignToSurface(transform.rotation, contact.normal, contact.grounded, delta);
+	});
+}
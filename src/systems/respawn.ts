@@ -0,0 +1,87 @@
+import { Entity, World } from 'koota';
+import { GameEvents, Input, IsPlayer, LastSafePoint, Movement, PreviousTransform, TrackPosition, Transform } from '../traits';
+import { projectOntoTrack } from '../utils/track-query';
+import { createLogger } from '../utils/logger';
+
+const SAFE_WIDTH_FRACTION = 0.6; // Part of the road width (around the middle) that counts as safe
+const SAFE_HEIGHT = 2; // Highest the car may be above the road and still count as on it
+const RESPAWN_HEIGHT = 1; // Height above the road the car is put back at
+
+const log = createLogger('physics');
+
+/**
+ * updateLastSafePoint:
+ * Remembers where each car was last safely on the road, and emits offTrack
+ * when a car leaves the road
+ */
+export function updateLastSafePoint(world: World) {
+	const events = world.get(GameEvents);
+
+	world.query(Transform, LastSafePoint, TrackPosition).updateEach(([transform, safePoint, { onTrack: found, projection }], entity) => {
+		const wasOnTrack = safePoint.onTrack;
+		safePoint.onTrack = !!found && Math.abs(projection.d) <= projection.width / 2 && projection.h <= SAFE_HEIGHT;
+		if (wasOnTrack && !safePoint.onTrack) {
+			log.debug(`Entity ${entity.id()} left the track`);
+			events?.emit('offTrack', { entity, position: transform.position.clone() });
+		}
+		if (!found) return;
+
+		const onRoad = Math.abs(projection.d) <= (projection.width * SAFE_WIDTH_FRACTION) / 2;
+		const onGround = projection.h <= SAFE_HEIGHT;
+		if (!onRoad || !onGround) return;
+
+		safePoint.valid = true;
+		safePoint.position.copy(projection.position);
+		safePoint.tangent.copy(projection.tangent);
+		safePoint.up.copy(projection.normal);
+	});
+}
+
+/**
+ * Puts an entity back on the track at its last safe point, at rest and
+ * facing along the track
+ * @returns Whether there was a safe point to go back to
+ */
+export function respawnAtSafePoint(world: World, entity: Entity): boolean {
+	const safePoint = entity.get(LastSafePoint);
+	const transform = entity.get(Transform);
+	if (!safePoint?.valid || !transform) return false;
+
+	transform.position.copy(safePoint.position).addScaledVector(safePoint.up, RESPAWN_HEIGHT);
+	transform.rotation.set(0, Math.atan2(-safePoint.tangent.x, -safePoint.tangent.z), 0);
+
+	const movement = entity.get(Movement);
+	if (movement) {
+		movement.velocity.set(0, 0, 0);
+		movement.force.set(0, 0, 0);
+	}
+
+	// Jump the view straight there instead of interpolating across the map
+	const previous = entity.get(PreviousTransform);
+	if (previous) {
+		previous.position.copy(transform.position);
+		previous.quaternion.setFromEuler(transform.rotation);
+	}
+
+	// Handling reads the track position before the next move, so it has to follow the jump
+	const track = entity.get(TrackPosition);
+	if (track) track.onTrack = !!projectOntoTrack(world, transform.position, track.projection);
+
+	entity.set(Transform, transform);
+	return true;
+}
+
+/**
+ * respawnPlayers:
+ * Handles the respawn input (T) by putting the player back at the last safe point
+ */
+export function respawnPlayers(world: World) {
+	world.query(IsPlayer, Input, LastSafePoint).updateEach(([input], entity) => {
+		if (!input.respawn) return;
+
+		input.respawn = false;
+		if (respawnAtSafePoint(world, entity)) {
+			log.info(`Respawned entity ${entity.id()} at its last safe point`);
+		}
+	});
+}
@@ -0,0 +1,14 @@
+import { World } from 'koota';
+import { PreviousTransform, Transform } from '../traits';
+
+/**
+ * Remembers each transform before the simulation step moves it,
+ * so the view can interpolate between the two
+ */
+export function storePreviousTransforms(world: World) {
+	world.query(Transform, PreviousTransform).updateEach(([transform, previous]) => {
+		previous.position.copy(transform.position);
+		previous.quaternion.setFromEuler(transform.rotation);
+		previous.scale.copy(transform.scale);
+	});
+}
@@ -1,8 +1,21 @@
-import { World } from 'koota';
-import { Transform, Ref } from '../traits';
+import { Not, World } from 'koota';
+import * as THREE from 'three';
+import { Transform, Ref, PreviousTransform, Time } from '../traits';
+
+const currentQuaternion = new THREE.Quaternion();
 
 export function syncView(world: World) {
-	world.query(Transform, Ref).updateEach(([transform, view]) => {
+	const { alpha } = world.get(Time)!;
+
+	// Blend between the last two simulation steps
+	world.query(Transform, PreviousTransform, Ref).updateEach(([transform, previous, view]) => {
+		view.position.lerpVectors(previous.position, transform.position, alpha);
+		currentQuaternion.setFromEuler(transform.rotation);
+		view.quaternion.slerpQuaternions(previous.quaternion, currentQuaternion, alpha);
+		view.scale.lerpVectors(previous.scale, transform.scale, alpha);
+	});
+
+	world.query(Transform, Ref, Not(PreviousTransform)).updateEach(([transform, view]) => {
 		view.position.copy(transform.position);
 		view.rotation.copy(transform.rotation);
 		view.scale.copy(transform.scale);
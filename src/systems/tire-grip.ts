@@ -0,0 +1,84 @@
+import { Not, World } from 'koota';
+import { Drift, GroundContact, HoverFlight, Input, Movement, Time, Transform, VehicleProfile } from '../traits';
+import * as THREE from 'three';
+import { createLogger } from '../utils/logger';
+
+const GRIP_TRANSFER = 0.9; // Part of the lateral speed the tires turn into forward speed, capped at the speed before grip
+const DRIFT_MIN_SPEED = 10; // Slowest forward speed a drift can start or continue at
+const DRIFT_STEER_THRESHOLD = 0.1; // Steering input needed to start a drift
+const DRIFT_END_ANGLE = 0.05; // Slip angle below which a released drift ends (radians)
+const DRIFT_SCORE_ANGLE = 0.1; // Slip angle from which a drift scores (radians)
+const DRIFT_SCORE_RATE = 10; // Points per second per radian of slip per unit of speed
+const DRIFT_CHARGE_RATE = 0.4; // Boost charge per second per radian of slip
+
+const log = createLogger('physics');
+
+const forwardDir = new THREE.Vector3();
+const rightDir = new THREE.Vector3();
+
+/**
+ * applyTireGrip:
+ * Splits the velocity of ground vehicles into forward and lateral parts in
+ * the vehicle's frame and lets the tires bleed off the lateral slip. Holding
+ * the drift key (or braking) while steering at speed starts a drift, which
+ * lowers the lateral grip so the car slides at an angle. Drifting scores
+ * points and charges the Drift trait's boost charge. Grip levels come from
+ * the vehicle's VehicleProfile.
+ */
+export function applyTireGrip(world: World) {
+	const { delta } = world.get(Time)!;
+
+	world.query(Input, Transform, Movement, Drift, VehicleProfile, GroundContact, Not(HoverFlight)).updateEach(([input, transform, movement, drift, profile, contact], entity) => {
+		const { velocity } = movement;
+
+		// Tires only work on the road
+		if (!contact.grounded) return;
+		const up = contact.normal;
+
+		// Vehicle frame in the plane of the road
+		forwardDir.set(0, 0, -1).applyEuler(transform.rotation);
+		forwardDir.addScaledVector(up, -forwardDir.dot(up)).normalize();
+		rightDir.crossVectors(forwardDir, up);
+
+		const forwardSpeed = velocity.dot(forwardDir);
+		const lateralSpeed = velocity.dot(rightDir);
+
+		// Start a drift with the drift key or the brake, while steering at speed
+		const triggerHeld = input.drift || input.brake > 0;
+		const steering = Math.abs(input.strafe) > DRIFT_STEER_THRESHOLD;
+		if (!drift.active && triggerHeld && steering && forwardSpeed > DRIFT_MIN_SPEED) {
+			drift.active = true;
+			log.debug(`Entity ${entity.id()} started drifting`);
+		}
+
+		// Bleed off lateral slip, low grip while the drift is being held
+		const grip = drift.active && triggerHeld ? profile.driftGrip : profile.grip;
+		const lateralLoss = lateralSpeed * (1 - Math.exp(-grip * delta));
+		const speedBefore = velocity.length();
+		velocity.addScaledVector(rightDir, -lateralLoss);
+		if (forwardSpeed > 0) {
+			// Turn part of the slip into forward speed, but never more than the car had
+			velocity.addScaledVector(forwardDir, Math.abs(lateralLoss) * GRIP_TRANSFER);
+			if (velocity.length() > speedBefore) velocity.setLength(speedBefore);
+		}
+
+		drift.angle = forwardSpeed > 0.5 ? Math.atan2(lateralSpeed - lateralLoss, forwardSpeed) : 0;
+		const slip = Math.abs(drift.angle);
+
+		if (!drift.active) return;
+
+		// The drift ends once it has straightened out, or the car has slowed down
+		if ((!triggerHeld && slip < DRIFT_END_ANGLE) || forwardSpeed < DRIFT_MIN_SPEED * 0.5) {
+			drift.active = false;
+			drift.score += Math.round(drift.chainScore);
+			log.debug(`Entity ${entity.id()} finished a drift for ${Math.round(drift.chainScore)} points`);
+			drift.chainScore = 0;
+			return;
+		}
+
+		if (slip > DRIFT_SCORE_ANGLE) {
+			drift.chainScore += slip * forwardSpeed * DRIFT_SCORE_RATE * delta;
+			drift.charge = Math.min(1, drift.charge + slip * DRIFT_CHARGE_RATE * delta);
+		}
+	});
+}
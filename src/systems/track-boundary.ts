@@ -1,160 +1,91 @@
 import { World } from 'koota';
-import { Transform, IsPlayer, IsTrack, TrackSegment, Movement } from '../traits';
+import { BarrierContact, GameEvents, Movement, Time, TrackPosition, Transform, VehicleProfile } from '../traits';
 import * as THREE from 'three';
+import { createLogger } from '../utils/logger';
 
-// Boundary detection parameters
-const BOUNDARY_FORCE = 20;  // Force applied to push player back onto track
-const BOUNDARY_DAMPING = 0.85; // Additional damping when off track
-const TRACK_WIDTH_TOLERANCE = 0.9; // Width percentage that's considered safe (0.9 = 90% of width)
+// Barrier collision parameters
+export const VEHICLE_HALF_WIDTH = 0.9; // Distance from the vehicle's centre to its side
+const RESTITUTION = 0.3; // Part of the speed into the wall that bounces back
+const WALL_FRICTION = 0.4; // Speed along the wall lost per unit of impact speed
+const SCRAPE_DRAG = 0.8; // Speed along the wall lost per second while scraping it
+const IMPACT_SPEED = 2; // Slower contacts count as scraping rather than hitting
+const SCRAPE_SPEED = 1; // Slowest slide along the wall that is reported as a scrape
+
+const wallNormal = new THREE.Vector3();
+const tangential = new THREE.Vector3();
+const log = createLogger('physics');
 
 /**
- * Determines if the player is within the track boundaries
- * @param playerPosition Player's current position
- * @param segment Current track segment
- * @returns Object containing whether player is on track and closest edge point
+ * Lateral offset from the centreline at which a vehicle touches a barrier
  */
-function isPlayerOnTrack(playerPosition: THREE.Vector3, segment: any): { isOnTrack: boolean, closestEdgePoint?: THREE.Vector3, normalVector?: THREE.Vector3 } {
-  const controlPoints = segment.controlPoints;
-  const width = segment.width;
-  
-  if (!controlPoints || controlPoints.length < 2) {
-    return { isOnTrack: true }; // Default to true if we can't determine
-  }
-  
-  // Find the closest control point to the player
-  let closestPointIndex = 0;
-  let closestDistance = Infinity;
-  
-  for (let i = 0; i < controlPoints.length; i++) {
-    const distance = playerPosition.distanceTo(controlPoints[i]);
-    if (distance < closestDistance) {
-      closestDistance = distance;
-      closestPointIndex = i;
-    }
-  }
-  
-  // Get the current segment direction at this point
-  let direction = new THREE.Vector3(0, 0, -1);
-  if (closestPointIndex < controlPoints.length - 1) {
-    direction.subVectors(controlPoints[closestPointIndex + 1], controlPoints[closestPointIndex]).normalize();
-  } else if (closestPointIndex > 0) {
-    direction.subVectors(controlPoints[closestPointIndex], controlPoints[closestPointIndex - 1]).normalize();
-  }
-  
-  // Create perpendicular vector (normal to the track direction)
-  const perpendicular = new THREE.Vector3(-direction.z, 0, direction.x).normalize();
-  
-  // Project player position onto track direction to find the corresponding track center point
-  const pointOnTrack = controlPoints[closestPointIndex].clone();
-  const playerToPoint = new THREE.Vector3().subVectors(playerPosition, pointOnTrack);
-  const dot = playerToPoint.dot(direction);
-  
-  // Adjust track point based on projection
-  if (closestPointIndex < controlPoints.length - 1) {
-    const nextPoint = controlPoints[closestPointIndex + 1];
-    const segmentLength = pointOnTrack.distanceTo(nextPoint);
-    
-    if (dot > 0 && dot < segmentLength) {
-      // Interpolate between current and next point
-      const t = dot / segmentLength;
-      pointOnTrack.lerp(nextPoint, t);
-    }
-  }
-  
-  // Calculate lateral distance from track center
-  const playerToTrackCenter = new THREE.Vector3().subVectors(playerPosition, pointOnTrack);
-  playerToTrackCenter.y = 0; // Ignore height difference
-  
-  // Project this vector onto the perpendicular to get lateral distance
-  const lateralDistance = Math.abs(playerToTrackCenter.dot(perpendicular));
-  
-  // Determine if player is on track (within safe width)
-  const safeWidth = width * TRACK_WIDTH_TOLERANCE / 2;
-  const isOnTrack = lateralDistance <= safeWidth;
-  
-  // Calculate closest edge point and normal vector if off track
-  let closestEdgePoint;
-  let normalVector;
-  
-  if (!isOnTrack) {
-    // Determine which side of the track the player is on
-    const side = Math.sign(playerToTrackCenter.dot(perpendicular));
-    
-    // Calculate edge point
-    closestEdgePoint = pointOnTrack.clone().add(
-      perpendicular.clone().multiplyScalar(side * width / 2)
-    );
-    
-    // Normal vector points from the edge back to the track center
-    normalVector = perpendicular.clone().multiplyScalar(-side);
-  }
-  
-  return { isOnTrack, closestEdgePoint, normalVector };
+export function getBarrierLimit(width: number): number {
+  return width / 2 - VEHICLE_HALF_WIDTH;
 }
 
 /**
- * Apply a force to push player back onto the track
+ * enforceTrackBoundaries:
+ * Keeps vehicles between the barrier walls along both track edges
+ * A vehicle reaching a wall is put back against it and its velocity is
+ * reflected off the wall normal: part of the speed into the wall bounces
+ * back, and friction takes speed off along the wall in proportion to how
+ * hard it hit, so glancing blows cost little and head-on hits a lot.
+ * Every contact is emitted as a collision game event: hitting a wall as an
+ * impact, and sliding or pushing along it as a scrape.
  */
 export function enforceTrackBoundaries(world: World): void {
-  // Find player entity
-  const player = world.queryFirst(IsPlayer, Transform, Movement);
-  if (!player) return;
-  
-  const playerTransform = player.get(Transform)!;
-  const playerMovement = player.get(Movement)!;
-  const playerPosition = playerTransform.position;
-  
-  // Find all track segments
-  const trackSegments = world.query(IsTrack, TrackSegment);
-  if (trackSegments.length === 0) return;
-  
-  // Find the segment the player is most likely on
-  let currentSegment = null;
-  let closestDistance = Infinity;
-  
-  for (const segment of trackSegments) {
-    const segmentData = segment.get(TrackSegment)!;
-    const controlPoints = segmentData.controlPoints;
-    
-    if (!controlPoints || controlPoints.length === 0) continue;
-    
-    // Find distance to the segment's midpoint as a quick check
-    const midPointIndex = Math.floor(controlPoints.length / 2);
-    const midPoint = controlPoints[midPointIndex];
-    const distance = playerPosition.distanceTo(midPoint);
-    
-    if (distance < closestDistance) {
-      closestDistance = distance;
-      currentSegment = segmentData;
+  const events = world.get(GameEvents);
+  const { delta, current } = world.get(Time)!;
+
+  world.query(Transform, Movement, VehicleProfile, BarrierContact, TrackPosition).updateEach(([transform, movement, , contact, track], entity) => {
+    // Only a new contact counts as an impact
+    const wasTouching = contact.touching;
+    contact.touching = false;
+
+    // Distances are measured in the road's own frame, so banked sections and hills work the same
+    if (!track.onTrack) return;
+    const { projection } = track;
+
+    const limit = getBarrierLimit(projection.width);
+    const penetration = Math.abs(projection.d) - limit;
+    if (penetration <= 0) return;
+
+    contact.touching = true;
+
+    // Put the vehicle back against the wall
+    const side = Math.sign(projection.d);
+    transform.position.addScaledVector(projection.right, -side * penetration);
+    projection.d -= side * penetration;
+    wallNormal.copy(projection.right).multiplyScalar(-side);
+
+    const { velocity } = movement;
+    const normalSpeed = velocity.dot(wallNormal);
+    tangential.copy(velocity).addScaledVector(wallNormal, -normalSpeed);
+    const slideSpeed = tangential.length();
+
+    const impactSpeed = Math.max(0, -normalSpeed);
+    const isImpact = impactSpeed >= IMPACT_SPEED && !wasTouching;
+
+    if (normalSpeed < 0) {
+      // Reflect with restitution, and lose speed along the wall to friction
+      const keep = slideSpeed > 0 ? Math.max(0, 1 - (WALL_FRICTION * impactSpeed) / slideSpeed) : 0;
+      velocity.copy(tangential).multiplyScalar(keep).addScaledVector(wallNormal, impactSpeed * RESTITUTION);
+    } else {
+      // Sliding along the wall
+      velocity.addScaledVector(tangential, -(1 - Math.exp(-SCRAPE_DRAG * delta)));
     }
-  }
-  
-  if (!currentSegment) return;
-  
-  // Check if player is on track
-  const { isOnTrack, closestEdgePoint, normalVector } = isPlayerOnTrack(playerPosition, currentSegment);
-  
-  if (!isOnTrack && normalVector && closestEdgePoint) {
-    // Apply boundary force to the player
-    const boundaryForce = normalVector.clone().multiplyScalar(BOUNDARY_FORCE);
-    
-    // Apply extra damping when off track
-    playerMovement.velocity.multiplyScalar(BOUNDARY_DAMPING);
-    
-    // Add corrective force
-    playerMovement.force.add(boundaryForce);
-    
-    // Add visual feedback (vibration effect)
-    const smallRandomOffset = new THREE.Vector3(
-      (Math.random() - 0.5) * 0.05,
-      0,
-      (Math.random() - 0.5) * 0.05
-    );
-    
-    // Apply small visual shake
-    playerTransform.position.add(smallRandomOffset);
-    
-    // Debug
-    console.log("Player off track! Applying correction force:", boundaryForce);
-  }
-} 
\ No newline at end of file
+
+    if (!isImpact && slideSpeed < SCRAPE_SPEED) return;
+
+    if (isImpact) {
+      log.debug(`Entity ${entity.id()} hit the ${side > 0 ? 'right' : 'left'} barrier at ${impactSpeed.toFixed(1)}`);
+    }
+    events?.emit('collision', {
+      entity,
+      kind: isImpact ? 'impact' : 'scrape',
+      strength: isImpact ? impactSpeed : slideSpeed,
+      point: projection.position.clone().addScaledVector(projection.right, side * projection.width / 2),
+      normal: wallNormal.clone(),
+      time: current,
+    });
+  });
+}
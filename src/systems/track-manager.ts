@@ -1,19 +1,67 @@
 import { World, Entity } from 'koota';
-import { Transform, IsPlayer, IsTrack, TrackSegment } from '../traits';
-import { generateNextSegment, TRACK_CONFIG, generateFirstSegment, TrackSegmentParams } from '../utils/track-generator';
+import { Transform, IsPlayer, IsTrack, TrackSegment, Checkpoint, TrackState, TrackPosition } from '../traits';
+import {
+  generateNextSegment,
+  TRACK_CONFIG,
+  generateFirstSegment,
+  createStraightSegment,
+  generateCircuit,
+  TrackSegmentParams,
+  TrackMode,
+} from '../utils/track-generator';
+import { createLogger } from '../utils/logger';
 import * as THREE from 'three';
 import { actions } from '../actions';
 
-// Cache of spawned segments for efficient lookup
-let spawnedSegments: { [key: number]: Entity } = {};
-// Track the highest segment index that has been generated
-let highestSegmentIndex = -1;
-// Track the lowest active segment index
-let lowestActiveSegmentIndex = 0;
-// Cache for segment parameters
-let segmentCache: { [key: number]: TrackSegmentParams } = {};
-// Debug flag
-const DEBUG = true;
+const log = createLogger('track');
+
+/**
+ * Creates the entity for a segment and records it in the caches
+ * Every field of the segment parameters is copied into the TrackSegment trait.
+ * @param world World instance
+ * @param params Shape and placement of the segment
+ * @param index Segment index
+ */
+function spawnSegmentEntity(world: World, params: TrackSegmentParams, index: number): Entity {
+  const state = world.get(TrackState)!;
+  state.segmentCache[index] = params;
+  
+  const segment = world.spawn(
+    IsTrack,
+    TrackSegment({
+      index: index,
+      length: params.length,
+      startDistance: params.startDistance,
+      width: params.width,
+      type: params.type,
+      curvature: params.curvature,
+      elevation: params.elevation,
+      bank: params.bank,
+      startPosition: params.startPosition,
+      endPosition: params.endPosition,
+      startDirection: params.startDirection,
+      endDirection: params.endDirection,
+      startUp: params.startUp,
+      endUp: params.endUp,
+      controlPoints: params.controlPoints,
+      curve: params.curve,
+      boostPads: params.boostPads,
+    }),
+    Checkpoint({ order: index, isStartLine: index === 0 }),
+    Transform({
+      position: params.startPosition.clone(),
+      rotation: new THREE.Euler(0, 0, 0),
+      scale: new THREE.Vector3(1, 1, 1),
+    })
+  );
+  
+  state.segments[index] = segment;
+  if (index > state.highestSegmentIndex) {
+    state.highestSegmentIndex = index;
+  }
+  
+  return segment;
+}
 
 /**
  * Spawns a track segment at the given index
@@ -21,147 +69,85 @@ const DEBUG = true;
  * @param index Segment index to spawn
  */
 function spawnSegment(world: World, index: number): Entity | null {
+  const state = world.get(TrackState)!;
+  
   try {
     // If this segment already exists, return it
-    if (spawnedSegments[index]) {
-      if (DEBUG) console.log(`Segment ${index} already exists, using cached version`);
-      return spawnedSegments[index];
+    if (state.segments[index]) {
+      log.debug(`Segment ${index} already exists, using cached version`);
+      return state.segments[index];
     }
     
-    console.log(`Spawning track segment at index ${index}`);
+    log.debug(`Spawning track segment at index ${index}`);
     
     // Generate segment parameters
     let segmentParams: TrackSegmentParams;
     
-    if (index === 0) {
+    if (state.mode === 'circuit') {
+      // Circuit segments are generated up front as one closed loop
+      const circuitParams = state.circuitLayout[index];
+      if (!circuitParams) {
+        log.error(`Segment ${index} is not part of the circuit`);
+        return null;
+      }
+      segmentParams = circuitParams;
+    } else if (index === 0) {
       // For the first segment, generate a straight segment
       segmentParams = generateFirstSegment();
     } else {
       // For subsequent segments, use the previous segment
-      const prevParams = segmentCache[index - 1];
+      const prevParams = state.segmentCache[index - 1];
       if (!prevParams) {
-        console.error(`Previous segment ${index - 1} not found in cache`);
+        log.error(`Previous segment ${index - 1} not found in cache`);
         return null;
       }
-      segmentParams = generateNextSegment(prevParams, index);
+      segmentParams = generateNextSegment(prevParams, index, state.seed);
     }
     
     // Validate segment parameters
     if (!segmentParams.controlPoints || segmentParams.controlPoints.length < 2) {
-      console.error(`Generated segment ${index} has invalid control points`);
+      log.error(`Generated segment ${index} has invalid control points`);
       return null;
     }
     
-    // Cache the segment parameters
-    segmentCache[index] = segmentParams;
-    
     // Create the segment entity
-    const segment = world.spawn(
-      IsTrack,
-      TrackSegment({
-        index: index,
-        length: segmentParams.length,
-        width: segmentParams.width,
-        type: segmentParams.type,
-        curvature: 0, // Default value for now
-        elevation: 0, // Default value for now
-        startPosition: segmentParams.startPosition,
-        endPosition: segmentParams.endPosition,
-        startDirection: segmentParams.startDirection,
-        endDirection: segmentParams.endDirection,
-        controlPoints: segmentParams.controlPoints,
-      }),
-      Transform({
-        position: segmentParams.startPosition.clone(),
-        rotation: new THREE.Euler(0, 0, 0),
-        scale: new THREE.Vector3(1, 1, 1),
-      })
-    );
-    
-    // Store the segment in the cache
-    spawnedSegments[index] = segment;
-    
-    // Update highest segment index
-    if (index > highestSegmentIndex) {
-      highestSegmentIndex = index;
-    }
+    const segment = spawnSegmentEntity(world, segmentParams, index);
     
-    console.log(`Successfully spawned segment ${index} (type: ${segmentParams.type}, id: ${segment.id})`);
+    log.debug(`Successfully spawned segment ${index} (type: ${segmentParams.type}, id: ${segment.id()})`);
     
     return segment;
   } catch (error) {
-    console.error(`Error spawning segment ${index}:`, error);
+    log.error(`Error spawning segment ${index}:`, error);
     
     // Try to create a fallback straight segment
     try {
-      console.log(`Creating fallback straight segment for index ${index}`);
+      log.debug(`Creating fallback straight segment for index ${index}`);
       
       // Calculate start position based on previous segment
       const startPos = index === 0 
         ? new THREE.Vector3(0, 0, 0) 
-        : segmentCache[index - 1]?.endPosition.clone() || new THREE.Vector3(0, 0, -index * TRACK_CONFIG.segmentLength);
+        : state.segmentCache[index - 1]?.endPosition.clone() || new THREE.Vector3(0, 0, -index * TRACK_CONFIG.segmentLength);
       
-      const endPos = startPos.clone().add(new THREE.Vector3(0, 0, -TRACK_CONFIG.segmentLength));
-      const direction = new THREE.Vector3(0, 0, -1);
+      const direction = index === 0
+        ? new THREE.Vector3(0, 0, -1)
+        : state.segmentCache[index - 1]?.endDirection.clone() || new THREE.Vector3(0, 0, -1);
       
-      const fallbackParams: TrackSegmentParams = {
-        startPosition: startPos,
-        endPosition: endPos,
-        startDirection: direction,
-        endDirection: direction,
-        controlPoints: [
-          startPos.clone(),
-          new THREE.Vector3(
-            startPos.x, 
-            startPos.y, 
-            startPos.z - TRACK_CONFIG.segmentLength/2
-          ),
-          endPos.clone()
-        ],
-        length: TRACK_CONFIG.segmentLength,
-        width: TRACK_CONFIG.trackWidth,
-        type: 'straight'
-      };
+      const up = state.segmentCache[index - 1]?.endUp.clone();
       
-      // Cache the fallback segment parameters
-      segmentCache[index] = fallbackParams;
+      const fallbackParams = createStraightSegment(startPos, direction, up);
+      const prevParams = state.segmentCache[index - 1];
+      if (prevParams) {
+        fallbackParams.startDistance = prevParams.startDistance + prevParams.length;
+      }
       
       // Create the fallback segment entity
-      const fallbackSegment = world.spawn(
-        IsTrack,
-        TrackSegment({
-          index: index,
-          length: fallbackParams.length,
-          width: fallbackParams.width,
-          type: fallbackParams.type,
-          curvature: 0,
-          elevation: 0,
-          startPosition: fallbackParams.startPosition,
-          endPosition: fallbackParams.endPosition,
-          startDirection: fallbackParams.startDirection,
-          endDirection: fallbackParams.endDirection,
-          controlPoints: fallbackParams.controlPoints,
-        }),
-        Transform({
-          position: fallbackParams.startPosition.clone(),
-          rotation: new THREE.Euler(0, 0, 0),
-          scale: new THREE.Vector3(1, 1, 1),
-        })
-      );
-      
-      // Store the fallback segment in the cache
-      spawnedSegments[index] = fallbackSegment;
-      
-      // Update highest segment index
-      if (index > highestSegmentIndex) {
-        highestSegmentIndex = index;
-      }
+      const fallbackSegment = spawnSegmentEntity(world, fallbackParams, index);
       
-      console.log(`Created fallback straight segment for index ${index}`);
+      log.debug(`Created fallback straight segment for index ${index}`);
       
       return fallbackSegment;
     } catch (fallbackError) {
-      console.error(`Failed to create even fallback segment for index ${index}:`, fallbackError);
+      log.error(`Failed to create even fallback segment for index ${index}:`, fallbackError);
       return null;
     }
   }
@@ -169,19 +155,21 @@ function spawnSegment(world: World, index: number): Entity | null {
 
 /**
  * Removes a track segment at the given index
+ * @param world World instance
  * @param index Segment index to remove
  */
-function removeSegment(index: number): void {
-  const segment = spawnedSegments[index];
+function removeSegment(world: World, index: number): void {
+  const state = world.get(TrackState)!;
+  const segment = state.segments[index];
   if (segment) {
-    console.log(`Removing track segment at index ${index}`);
+    log.debug(`Removing track segment at index ${index}`);
     
     segment.destroy();
-    delete spawnedSegments[index];
+    delete state.segments[index];
     
     // Update the lowest active segment index if necessary
-    if (index === lowestActiveSegmentIndex) {
-      lowestActiveSegmentIndex = index + 1;
+    if (index === state.lowestActiveSegmentIndex) {
+      state.lowestActiveSegmentIndex = index + 1;
     }
   }
 }
@@ -189,19 +177,29 @@ function removeSegment(index: number): void {
 /**
  * Spawns initial track segments
  * @param world World instance
+ * @param seed Seed for the track layout, the same seed always yields the same track
+ * @param mode Endless track or closed circuit
  */
-export function spawnInitialTrack(world: World): void {
-  console.log("=================================================");
-  console.log("              INITIALIZING TRACK                 ");
-  console.log("=================================================");
+export function spawnInitialTrack(
+  world: World,
+  seed: number = world.get(TrackState)!.seed,
+  mode: TrackMode = world.get(TrackState)!.mode
+): void {
+  log.info("Initializing track");
+  const state = world.get(TrackState)!;
   
   // Clear any existing segments
-  resetTrack();
+  resetTrack(world);
+  state.seed = seed;
+  state.mode = mode;
+  state.circuitLayout = mode === 'circuit' ? generateCircuit(seed) : [];
+  log.info(`Using track seed ${state.seed} (${state.mode})`);
   
   try {
-    // Spawn first 10 segments to ensure we have enough track visible at start
-    const initialSegmentCount = 10;
-    console.log(`Spawning initial ${initialSegmentCount} track segments`);
+    // Spawn first 10 segments to ensure we have enough track visible at start,
+    // a circuit is kept loaded in full
+    const initialSegmentCount = mode === 'circuit' ? state.circuitLayout.length : 10;
+    log.debug(`Spawning initial ${initialSegmentCount} track segments`);
     
     // Always spawn first segment separately to ensure it's created properly
     const firstSegment = spawnSegment(world, 0);
@@ -209,170 +207,114 @@ export function spawnInitialTrack(world: World): void {
       throw new Error("Failed to spawn the first segment");
     }
     
-    console.log(`First segment spawned: ID=${firstSegment.id}`);
+    log.debug(`First segment spawned: ID=${firstSegment.id()}`);
     
     // Spawn the rest of the initial segments
     for (let i = 1; i < initialSegmentCount; i++) {
       const segment = spawnSegment(world, i);
       if (segment) {
-        console.log(`Segment ${i} spawned: ID=${segment.id}, type=${segment.get(TrackSegment)?.type}`);
+        log.debug(`Segment ${i} spawned: ID=${segment.id()}, type=${segment.get(TrackSegment)?.type}`);
       } else {
-        console.error(`Failed to spawn segment ${i}`);
+        log.error(`Failed to spawn segment ${i}`);
       }
     }
     
-    const segmentCount = Object.keys(spawnedSegments).length;
-    console.log(`Successfully spawned ${segmentCount} track segments`);
-    console.log("Track initialization complete");
+    const segmentCount = Object.keys(state.segments).length;
+    log.info(`Successfully spawned ${segmentCount} track segments`);
+    log.debug("Track initialization complete");
     
   } catch (error) {
-    console.error("Error during initial track spawning:", error);
+    log.error("Error during initial track spawning:", error);
     
     // Fallback: spawn a minimal straight track for testing
-    console.warn("Creating emergency fallback track (straight segments only)");
+    log.warn("Creating emergency fallback track (straight segments only)");
     
     try {
       // Clear segments again
-      resetTrack();
+      resetTrack(world);
       
       // Create 5 straight segments
       for (let i = 0; i < 5; i++) {
         // Direct creation of simple straight segments
         const startPos = new THREE.Vector3(0, 0, -i * TRACK_CONFIG.segmentLength);
-        const endPos = new THREE.Vector3(0, 0, -(i+1) * TRACK_CONFIG.segmentLength);
-        
-        const fallbackParams: TrackSegmentParams = {
-          startPosition: startPos,
-          endPosition: endPos,
-          startDirection: new THREE.Vector3(0, 0, -1),
-          endDirection: new THREE.Vector3(0, 0, -1),
-          controlPoints: [startPos.clone(), endPos.clone()],
-          length: TRACK_CONFIG.segmentLength,
-          width: TRACK_CONFIG.trackWidth,
-          type: 'straight'
-        };
-        
-        // Cache parameters
-        segmentCache[i] = fallbackParams;
+        const fallbackParams = createStraightSegment(startPos, new THREE.Vector3(0, 0, -1));
+        fallbackParams.startDistance = i * TRACK_CONFIG.segmentLength;
         
-        // Create entity
-        const segment = world.spawn(
-          IsTrack,
-          TrackSegment({
-            index: i,
-            length: TRACK_CONFIG.segmentLength,
-            width: TRACK_CONFIG.trackWidth,
-            type: 'straight',
-            curvature: 0,
-            elevation: 0,
-            startPosition: startPos,
-            endPosition: endPos,
-            startDirection: new THREE.Vector3(0, 0, -1),
-            endDirection: new THREE.Vector3(0, 0, -1),
-            controlPoints: [startPos.clone(), endPos.clone()],
-          }),
-          Transform({
-            position: startPos.clone(),
-            rotation: new THREE.Euler(0, 0, 0),
-            scale: new THREE.Vector3(1, 1, 1),
-          })
-        );
+        spawnSegmentEntity(world, fallbackParams, i);
         
-        spawnedSegments[i] = segment;
-        if (i > highestSegmentIndex) {
-          highestSegmentIndex = i;
-        }
-        
-        console.log(`Created emergency fallback segment ${i}`);
+        log.debug(`Created emergency fallback segment ${i}`);
       }
     } catch (fallbackError) {
-      console.error("Failed even with emergency fallback:", fallbackError);
+      log.error("Failed even with emergency fallback:", fallbackError);
     }
   }
-  
-  console.log("=================================================");
 }
 
 /**
  * Resets the track manager state
+ * @param world World instance
  */
-export function resetTrack(): void {
-  console.log("Resetting track manager state");
+export function resetTrack(world: World): void {
+  log.debug("Resetting track manager state");
+  const state = world.get(TrackState)!;
   
   // Destroy all segments
-  Object.values(spawnedSegments).forEach(segment => {
+  Object.values(state.segments).forEach(segment => {
     if (segment && segment.destroy) {
       segment.destroy();
     }
   });
   
   // Reset state
-  spawnedSegments = {};
-  highestSegmentIndex = -1;
-  lowestActiveSegmentIndex = 0;
-  segmentCache = {};
+  state.segments = {};
+  state.highestSegmentIndex = -1;
+  state.lowestActiveSegmentIndex = 0;
+  state.segmentCache = {};
   
-  console.log("Track state reset complete");
+  log.debug("Track state reset complete");
 }
 
 /**
- * Finds the segment index that contains the given position
- * @param position Position to check
- * @returns The index of the containing segment or -1 if not found
+ * Returns the seed of the current track
+ * @param world World instance
  */
-function findContainingSegment(position: THREE.Vector3): number {
-  // If no segments exist, return -1
-  if (highestSegmentIndex < 0) {
-    console.log("No segments exist yet");
-    return -1;
-  }
-  
-  // Simple check for all active segments
-  for (let i = lowestActiveSegmentIndex; i <= highestSegmentIndex; i++) {
-    const segmentParams = segmentCache[i];
-    if (!segmentParams) continue;
-    
-    // Check if position is between start and end Z positions (primary direction)
-    // Use a simplified bounding box check for now
-    const minZ = Math.min(segmentParams.startPosition.z, segmentParams.endPosition.z);
-    const maxZ = Math.max(segmentParams.startPosition.z, segmentParams.endPosition.z);
-    const halfWidth = segmentParams.width / 2;
-    
-    // Basic bounds check (not accurate for curved segments but works for simple debugging)
-    if (position.z >= minZ && position.z <= maxZ) {
-      // The segments currently all run along the Z axis, so the X coordinate should be within
-      // the track width from the segment's centerline
-      const midPointX = (segmentParams.startPosition.x + segmentParams.endPosition.x) / 2;
-      if (Math.abs(position.x - midPointX) <= halfWidth) {
-        return i;
-      }
-    }
-  }
-  
-  // If we get here, try to find the closest segment
-  let closestIndex = -1;
-  let closestDistance = Infinity;
-  
-  for (let i = lowestActiveSegmentIndex; i <= highestSegmentIndex; i++) {
-    const segmentParams = segmentCache[i];
-    if (!segmentParams) continue;
-    
-    // Just check distance to segment start and end
-    const distStart = position.distanceTo(segmentParams.startPosition);
-    const distEnd = position.distanceTo(segmentParams.endPosition);
-    const minDist = Math.min(distStart, distEnd);
-    
-    if (minDist < closestDistance) {
-      closestDistance = minDist;
-      closestIndex = i;
-    }
-  }
-  
-  if (closestIndex >= 0) {
-    console.log(`Player not in any segment bounds, closest is segment ${closestIndex} (dist: ${closestDistance.toFixed(1)})`);
-  }
-  
-  return closestIndex;
+export function getTrackSeed(world: World): number {
+  return world.get(TrackState)!.seed;
+}
+
+/**
+ * Returns whether the current track is endless or a closed circuit
+ * @param world World instance
+ */
+export function getTrackMode(world: World): TrackMode {
+  return world.get(TrackState)!.mode;
+}
+
+/**
+ * Lap boundaries of a closed circuit
+ */
+export interface CircuitInfo {
+  segmentCount: number; // segments in one lap, indices run 0..segmentCount-1
+  lapLength: number; // centreline length of one lap
+  startPosition: THREE.Vector3; // centre of the start/finish line (start of segment 0)
+  startDirection: THREE.Vector3; // direction of travel across the start/finish line
+}
+
+/**
+ * Describes the current circuit
+ * @param world World instance
+ * @returns Circuit info, or null when the track is endless
+ */
+export function getCircuitInfo(world: World): CircuitInfo | null {
+  const state = world.get(TrackState)!;
+  if (state.mode !== 'circuit' || state.circuitLayout.length === 0) return null;
+
+  return {
+    segmentCount: state.circuitLayout.length,
+    lapLength: state.circuitLayout.reduce((total, segment) => total + segment.length, 0),
+    startPosition: state.circuitLayout[0].startPosition.clone(),
+    startDirection: state.circuitLayout[0].startDirection.clone(),
+  };
 }
 
 /**
@@ -380,20 +322,25 @@ function findContainingSegment(position: THREE.Vector3): number {
  * @param world World instance
  */
 export function updateTrackSegments(world: World): void {
+  const state = world.get(TrackState)!;
+  
   // First check if we have any segments
-  const activeSegmentCount = Object.keys(spawnedSegments).length;
+  const activeSegmentCount = Object.keys(state.segments).length;
   
   // If no segments exist, spawn initial segments
   if (activeSegmentCount === 0) {
-    console.log("No track segments exist, initializing track");
+    log.debug("No track segments exist, initializing track");
     spawnInitialTrack(world);
     return;
   }
   
+  // A circuit is loaded in full, nothing to stream
+  if (state.mode === 'circuit') return;
+  
   // Find the player entity
-  const player = world.queryFirst(IsPlayer, Transform);
+  const player = world.queryFirst(IsPlayer, Transform, TrackPosition);
   if (!player) {
-    console.log("No player found, skipping track update");
+    log.debug("No player found, skipping track update");
     return;
   }
   
@@ -402,19 +349,20 @@ export function updateTrackSegments(world: World): void {
   
   // Log player position periodically
   if (Math.random() < 0.01) { // Only log occasionally to avoid spam
-    console.log(`Player position: (${playerPosition.x.toFixed(1)}, ${playerPosition.y.toFixed(1)}, ${playerPosition.z.toFixed(1)})`);
+    log.debug(`Player position: (${playerPosition.x.toFixed(1)}, ${playerPosition.y.toFixed(1)}, ${playerPosition.z.toFixed(1)})`);
   }
   
   // Find which segment the player is currently in
-  const currentSegmentIndex = findContainingSegment(playerPosition);
+  const track = player.get(TrackPosition)!;
+  const currentSegmentIndex = track.onTrack ? track.projection.index : -1;
   
   // If player not found in any segment, use the closest or segment 0 as fallback
   if (currentSegmentIndex === -1) {
-    console.log("Player not found in any segment, using segment 0 as fallback");
+    log.debug("Player not found in any segment, using segment 0 as fallback");
     
     // Generate at least 5 segments ahead
     for (let i = 0; i < 5; i++) {
-      if (!spawnedSegments[i]) {
+      if (!state.segments[i]) {
         spawnSegment(world, i);
       }
     }
@@ -424,7 +372,7 @@ export function updateTrackSegments(world: World): void {
   // Spawn segments ahead of the player
   const segmentsAhead = TRACK_CONFIG.renderDistance;
   for (let i = currentSegmentIndex + 1; i <= currentSegmentIndex + segmentsAhead; i++) {
-    if (!spawnedSegments[i]) {
+    if (!state.segments[i]) {
       spawnSegment(world, i);
     }
   }
@@ -432,8 +380,8 @@ export function updateTrackSegments(world: World): void {
   // Remove segments too far behind the player
   const removeThreshold = currentSegmentIndex - 3; // Keep at least 3 segments behind player
   if (removeThreshold > 0) {
-    for (let i = lowestActiveSegmentIndex; i < removeThreshold; i++) {
-      removeSegment(i);
+    for (let i = state.lowestActiveSegmentIndex; i < removeThreshold; i++) {
+      removeSegment(world, i);
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { TraitInstance, World } from 'koota';
+import * as THREE from 'three';
+import { Checkpoint, GameEvents, IsPlayer, IsTrack, Movement, RaceProgress, RaceSession, Time, TrackSegment, Transform } from '../traits';
+import { getCircuitInfo } from './track-manager';
+
+const GATE_MARGIN = 2; // Extra width either side of the road that still counts as crossing a gate
+
+type TrackSegmentData = TraitInstance<typeof TrackSegment>;
+
+const toGate = new THREE.Vector3();
+
+/**
+ * Checks whether a move crossed a segment's gate in the direction of travel
+ * The gate is the plane through the segment start facing its start direction.
+ * @param from Position at the previous frame
+ * @param to Position now
+ * @param segment Segment whose start line is the gate
+ */
+function crossedGate(from: THREE.Vector3, to: THREE.Vector3, segment: TrackSegmentData): boolean {
+	const before = toGate.subVectors(from, segment.startPosition).dot(segment.startDirection);
+	const after = toGate.subVectors(to, segment.startPosition).dot(segment.startDirection);
+
+	if (before > 0 || after < 0) return false;
+
+	// Distance from the middle of the gate, measured in the gate plane
+	const offset = toGate.addScaledVector(segment.startDirection, -after).length();
+	return offset <= segment.width / 2 + GATE_MARGIN;
+}
+
+/**
+ * updateRaceProgress:
+ * Runs the race clock and records players crossing the checkpoint gates in
+ * order. Completing a gate sequence on a circuit finishes a lap, which is
+ * compared against the best lap so far. Distance is measured along the
+ * track centreline. Gates and laps are emitted as segmentEntered and
+ * lapCompleted game events.
+ */
+export function updateRaceProgress(world: World) {
+	const { delta } = world.get(Time)!;
+	const session = world.get(RaceSession)!;
+	const events = world.get(GameEvents);
+
+	if (session.state === 'countdown') {
+		session.countdown = Math.max(0, session.countdown - delta);
+		if (session.countdown === 0) {
+			session.state = 'racing';
+			session.elapsed = 0;
+		}
+	} else if (session.state === 'racing') {
+		session.elapsed += delta;
+	}
+
+	// Hold everyone on the grid until the start signal
+	if (session.state === 'countdown') {
+		world.query(IsPlayer, Movement).updateEach(([movement]) => {
+			movement.velocity.set(0, 0, 0);
+			movement.force.set(0, 0, 0);
+		});
+	}
+
+	const circuit = getCircuitInfo(world);
+	let allFinished = true;
+
+	world.query(IsPlayer, Transform, RaceProgress).updateEach(([transform, progress], entity) => {
+		const position = transform.position;
+
+		// Find the gate we are heading for and the segment we are driving on
+		let nextGate: TrackSegmentData | null = null;
+		let currentSegment: TrackSegmentData | null = null;
+		for (const entity of world.query(IsTrack, TrackSegment, Checkpoint)) {
+			const { order } = entity.get(Checkpoint)!;
+			if (order === progress.nextCheckpoint) nextGate = entity.get(TrackSegment)!;
+			if (order === progress.segmentIndex) currentSegment = entity.get(TrackSegment)!;
+		}
+
+		if (session.state === 'racing' && !progress.finished) {
+			progress.currentLapTime = session.elapsed - progress.lapStartTime;
+
+			if (nextGate && crossedGate(progress.previousPosition, position, nextGate)) {
+				const order = progress.nextCheckpoint;
+				const lapTime = progress.currentLapTime;
+				progress.segmentIndex = order;
+				currentSegment = nextGate;
+				events?.emit('segmentEntered', { entity, index: order, lap: progress.lap });
+
+				if (circuit && order === 0) {
+					// Back over the start line, the lap is complete
+					progress.lapTimes.push(lapTime);
+					progress.lastLapTime = lapTime;
+					progress.splitDelta = progress.bestLapTime > 0 ? lapTime - progress.bestLapTime : 0;
+
+					const isBest = progress.bestLapTime === 0 || lapTime < progress.bestLapTime;
+					if (isBest) {
+						progress.bestLapTime = lapTime;
+						progress.bestSplits = [...progress.splits];
+					}
+
+					progress.splits = [];
+					progress.lapStartTime = session.elapsed;
+					progress.currentLapTime = 0;
+
+					const completedLap = progress.lap;
+					if (session.totalLaps > 0 && progress.lap >= session.totalLaps) {
+						progress.finished = true;
+					} else {
+						progress.lap++;
+					}
+					events?.emit('lapCompleted', {
+						entity,
+						lap: completedLap,
+						lapTime,
+						bestLapTime: progress.bestLapTime,
+						isBest,
+						finished: progress.finished,
+					});
+				} else if (circuit) {
+					// Gate 0 is the finish line, so the first split is gate 1
+					progress.splits[order - 1] = lapTime;
+					const bestSplit = progress.bestSplits[order - 1];
+					progress.splitDelta = bestSplit !== undefined ? lapTime - bestSplit : 0;
+				}
+
+				progress.nextCheckpoint = circuit ? (order + 1) % circuit.segmentCount : order + 1;
+			}
+		}
+
+		// Distance along the centreline, past the last gate we crossed
+		if (currentSegment) {
+			const alongSegment = currentSegment.curve.getClosestParameter(position) * currentSegment.length;
+			// The lap counter stays on the final lap once finished
+			const completedLaps = circuit ? progress.lap - (progress.finished ? 0 : 1) : 0;
+			progress.distance = completedLaps * (circuit?.lapLength ?? 0) + currentSegment.startDistance + alongSegment;
+		}
+
+		progress.previousPosition.copy(position);
+		if (!progress.finished) allFinished = false;
+	});
+
+	if (session.state === 'racing' && session.totalLaps > 0 && allFinished && world.queryFirst(IsPlayer, RaceProgress)) {
+		session.state = 'finished';
+	}
+
+	world.set(RaceSession, session);
+}
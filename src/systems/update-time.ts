@@ -1,16 +1,59 @@
 import { World } from 'koota';
 import { Time } from '../traits';
 
+const MAX_FRAME_DELTA = 0.25; // Longest frame we try to catch up on, in seconds
+const MAX_STEPS_PER_FRAME = 8; // Beyond this the simulation slows down instead of spiralling
+
+/**
+ * Reads the clock and banks the elapsed real time for fixed simulation steps
+ */
 export function updateTime(world: World) {
 	const time = world.get(Time)!;
 
 	if (time.current === 0) time.current = performance.now();
 
 	const now = performance.now();
-	const delta = now - time.current;
+	const frameDelta = Math.min((now - time.current) / 1000, MAX_FRAME_DELTA);
 
-	time.delta = Math.min(delta / 1000, 1 / 30);
+	time.delta = time.fixedDelta;
 	time.current = now;
+	time.accumulator = Math.min(time.accumulator + frameDelta, time.fixedDelta * MAX_STEPS_PER_FRAME);
+
+	world.set(Time, time);
+}
+
+/**
+ * Takes one fixed step from the banked time if enough has built up
+ * When there is not, the leftover fraction of a step becomes the view's
+ * interpolation factor (Time.alpha).
+ * @returns Whether a simulation step should run
+ */
+export function consumeFixedStep(world: World): boolean {
+	const time = world.get(Time)!;
+
+	if (time.accumulator >= time.fixedDelta) {
+		time.accumulator -= time.fixedDelta;
+		world.set(Time, time);
+		return true;
+	}
+
+	time.alpha = time.accumulator / time.fixedDelta;
+	world.set(Time, time);
+	return false;
+}
+
+/**
+ * Advances time by a fixed step instead of reading the clock
+ * Used by the headless runner so simulations are reproducible.
+ * @param world World instance
+ * @param delta Step in seconds
+ */
+export function stepTime(world: World, delta: number) {
+	const time = world.get(Time)!;
+
+	time.delta = delta;
+	time.current += delta * 1000;
+	time.alpha = 1;
 
 	world.set(Time, time);
 }
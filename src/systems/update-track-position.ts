@@ -0,0 +1,17 @@
+import { World } from 'koota';
+import { TrackPosition, Transform } from '../traits';
+import { projectOntoTrack } from '../utils/track-query';
+
+/**
+ * updateTrackPosition:
+ * Projects each vehicle onto the track once per step, after it has moved
+ * Ground contact, barriers, boost pads, safe points and track streaming read
+ * the result instead of looking the track up again, and the handling systems
+ * of the next step read it before the vehicle moves again. Systems that move
+ * a vehicle later in the step keep its projection in line.
+ */
+export function updateTrackPosition(world: World) {
+	world.query(Transform, TrackPosition).updateEach(([transform, track]) => {
+		track.onTrack = !!projectOntoTrack(world, transform.position, track.projection);
+	});
+}
@@ -0,0 +1,9 @@
+import { trait } from 'koota';
+
+/**
+ * Whether a vehicle is against a barrier wall, written by enforceTrackBoundaries.
+ * Only a new contact counts as an impact, staying against the wall is a scrape.
+ */
+export const BarrierContact = trait({
+	touching: false, // against a wall at the end of the last step
+});
@@ -0,0 +1,12 @@
+import { trait } from 'koota';
+
+/**
+ * Energy a vehicle spends while boosting
+ * Drains while boost is held and is refilled by finished drifts and boost
+ * pads, see updateBoostEnergy.
+ */
+export const BoostEnergy = trait({
+	energy: 1, // 0 (empty) to 1 (full)
+	drainRate: 0.3, // energy spent per second of boosting
+	active: false, // boosting this step, boost is held and there is energy left
+});
@@ -0,0 +1,10 @@
+import { trait } from 'koota';
+
+/**
+ * Shake of a camera's view, built up by barrier hits and scrapes
+ * Written by the camera shake system every rendered frame.
+ */
+export const CameraShake = trait({
+	trauma: 0, // from 0 to 1, the view offset grows with its square
+	lastTime: 0, // Time.current at the previous frame, 0 before the first one
+});
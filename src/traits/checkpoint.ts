@@ -0,0 +1,11 @@
+import { trait } from 'koota';
+
+/**
+ * Marks a track segment as a timing gate
+ * The gate is the line across the road at the start of the segment
+ * (TrackSegment.startPosition, facing TrackSegment.startDirection).
+ */
+export const Checkpoint = trait({
+	order: 0, // gates must be crossed in order, this is the segment index
+	isStartLine: false, // crossing this gate completes a lap on a circuit
+});
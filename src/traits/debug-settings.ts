@@ -0,0 +1,16 @@
+import { trait, TraitInstance } from 'koota';
+
+/**
+ * World-level switches for the debug overlays
+ * Overlays that are off are not mounted at all, so they cost nothing.
+ */
+export const DebugSettings = trait({
+	showBoundaries: false, // on-track limits and segment bounding boxes
+	showSegmentIds: false, // segment index/type labels and start axes
+	showControlPoints: false, // centreline samples stored on each segment
+	showVelocity: false, // player velocity and force vectors
+	showSpatialHash: false, // occupied spatial hash cells
+	showTrackProjection: false, // player's closest centreline point and road frame
+});
+
+export type DebugOverlay = keyof TraitInstance<typeof DebugSettings>;
@@ -0,0 +1,13 @@
+import { trait } from 'koota';
+
+/**
+ * Drift state of a ground vehicle, written by the tire grip system
+ * Drifting builds up a score and boost charge that the rest of the game can use.
+ */
+export const Drift = trait({
+	active: false, // true from the drift trigger until the slide has straightened out
+	angle: 0, // radians between heading and direction of travel, positive when sliding right
+	chainScore: 0, // points of the drift in progress
+	score: 0, // points banked from finished drifts
+	charge: 0, // boost charge from 0 to 1, built up while drifting and added to BoostEnergy when the drift ends
+});
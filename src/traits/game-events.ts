@@ -0,0 +1,43 @@
+import { Entity, trait } from 'koota';
+import * as THREE from 'three';
+import { EventBus } from '../utils/event-bus';
+
+export type CollisionKind = 'impact' | 'scrape';
+
+/**
+ * A vehicle touching a barrier wall
+ */
+export interface CollisionEvent {
+	entity: Entity;
+	kind: CollisionKind; // impact when hitting the wall, scrape while sliding along it
+	strength: number; // speed into the wall for impacts, along it for scrapes
+	point: THREE.Vector3; // contact point on the wall
+	normal: THREE.Vector3; // wall normal, pointing back onto the road
+	time: number; // Time.current when it happened
+}
+
+/**
+ * Payload of each game event by type
+ */
+export interface GameEventMap {
+	// A vehicle left the road, e.g. flying over a barrier
+	offTrack: { entity: Entity; position: THREE.Vector3 };
+	// A racer crossed the gate at the start of a segment
+	segmentEntered: { entity: Entity; index: number; lap: number };
+	// A racer crossed the start line of a circuit
+	lapCompleted: { entity: Entity; lap: number; lapTime: number; bestLapTime: number; isBest: boolean; finished: boolean };
+	collision: CollisionEvent;
+	// A vehicle started boosting
+	boostStarted: { entity: Entity };
+	// A vehicle picked something up from the track
+	pickupCollected: { entity: Entity; pickup: string; position: THREE.Vector3 };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+/**
+ * World-level event bus for game events
+ * Systems emit as things happen; the frame loop drains it once per tick,
+ * when UI, audio and analytics listeners get the frame's events in order.
+ */
+export const GameEvents = trait(() => new EventBus<GameEventMap>());
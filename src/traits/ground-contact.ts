@@ -0,0 +1,15 @@
+import { trait } from 'koota';
+import * as THREE from 'three';
+
+/**
+ * Contact between a ground vehicle and the track surface under it
+ * Written by the ground contact system after every move.
+ */
+export const GroundContact = trait({
+	grounded: false, // riding on the surface, false while airborne
+	height: 0, // height above the surface, along its normal
+	normal: () => new THREE.Vector3(0, 1, 0), // surface normal under the vehicle
+	airTime: 0, // seconds spent airborne in the current jump
+	landed: false, // true for the step the vehicle touched down
+	landingSpeed: 0, // speed into the surface at the last landing
+});
@@ -0,0 +1,17 @@
+import { trait } from 'koota';
+
+/**
+ * Switches an entity from ground-car handling to hover-flight
+ * In flight the vehicle keeps whatever attitude it is given: the mouse
+ * pitches and yaws, roll input rolls, and strafe slides sideways. Banking
+ * also turns the vehicle, so it can be flown with the keyboard alone.
+ */
+export const HoverFlight = trait({
+	pitchSensitivity: 1, // multiplier on mouse pitch
+	yawSensitivity: 1, // multiplier on mouse yaw
+	rollSpeed: 2.5, // radians per second at full roll input
+	bankTurnRate: 1.5, // radians per second of yaw when banked 90 degrees
+	strafeThrust: 0.6, // sideways thrust as a fraction of forward thrust
+	hoverHeight: 1.5, // height above the road the hover field holds up to
+	hoverStiffness: 8, // how hard the hover field pushes back below that height
+});
@@ -3,9 +3,27 @@ export * from './is-player';
 export * from './is-camera';
 export * from './movement';
 export * from './transform';
+export * from './previous-transform';
 export * from './time';
 export * from './spatial-hash-map';
 export * from './ref';
 export * from './maxSpeed';
 export * from './is-track';
 export * from './track-segment';
+export * from './checkpoint';
+export * from './race-progress';
+export * from './race-session';
+export * from './last-safe-point';
+export * from './debug-settings';
+export * from './hover-flight';
+export * from './drift';
+export * from './vehicle-profile';
+export * from './ground-contact';
+export * from './game-events';
+export * from './boost-energy';
+export * from './speed-boost';
+export * from './barrier-contact';
+export * from './camera-shake';
+export * from './track-state';
+export * from './rapier-state';
+export * from './track-position';
@@ -3,19 +3,26 @@ import * as THREE from 'three';
 
 /**
  * Input trait for free-roam flight:
- * - forward: +1 (W) or 0 (none)
- * - strafe: +1 (D), -1 (A), or 0
+ * - forward: throttle from 0 to 1 (W, or a gamepad trigger)
+ * - strafe: steering from -1 (A) to +1 (D), fractional from a stick
  * - boost: true when Space is held
- * - brake: true when S is held
- * - mouseDelta: frame-by-frame mouse movement (x=Yaw, y=Pitch)
- * - roll: +1 (R), -1 (Q), or 0 for rolling the ship
+ * - drift: true when C is held, starts a drift when steering at speed
+ * - brake: brake from 0 to 1 (S or Shift, or a gamepad trigger)
+ * - mouseDelta: mouse movement since the last simulation step (x=Yaw, y=Pitch), cleared by the step that uses it
+ * - roll: +1 (E), -1 (Q), or 0 for rolling the ship
+ * - respawn: true for the frame T was pressed, puts the car back on the track
+ * - toggleFlight: true for the frame F was pressed, switches between car and hover-flight
+ * Keys are the defaults, see utils/input-bindings.ts for the rebindable map.
  */
 export const Input = trait({
 	forward: 0,
 	strafe: 0,
 	boost: false,
-	brake: false,
-	roll: 0, // +1 for roll right (R), -1 for roll left (Q)
+	drift: false,
+	brake: 0,
+	roll: 0, // +1 for roll right (E), -1 for roll left (Q)
+	respawn: false, // one-shot, set on the frame T is pressed
+	toggleFlight: false, // one-shot, set on the frame F is pressed
 	mouseDelta: () => new THREE.Vector2(),
 });
 
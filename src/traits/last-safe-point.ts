@@ -0,0 +1,14 @@
+import { trait } from 'koota';
+import * as THREE from 'three';
+
+/**
+ * The last place on the track where the entity was safely on the road
+ * Stored on the centreline, so respawning puts the car back mid-road.
+ */
+export const LastSafePoint = trait({
+	valid: false, // false until the entity has been on the track
+	onTrack: false, // whether the entity was on the road at the last step
+	position: () => new THREE.Vector3(), // centreline point
+	tangent: () => new THREE.Vector3(0, 0, -1), // direction of travel there
+	up: () => new THREE.Vector3(0, 1, 0), // road surface normal there
+});
@@ -0,0 +1,13 @@
+import { trait } from 'koota';
+import * as THREE from 'three';
+
+/**
+ * Transform at the start of the latest simulation step
+ * syncView blends from this towards Transform so motion stays smooth when
+ * the display rate and the fixed simulation rate differ.
+ */
+export const PreviousTransform = trait({
+	position: () => new THREE.Vector3(),
+	quaternion: () => new THREE.Quaternion(),
+	scale: () => new THREE.Vector3(1, 1, 1),
+});
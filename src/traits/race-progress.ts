@@ -0,0 +1,22 @@
+import { trait } from 'koota';
+import * as THREE from 'three';
+
+/**
+ * A racer's progress around the track, times are in seconds of race time
+ */
+export const RaceProgress = trait({
+	lap: 1, // lap currently being driven, starting at 1
+	nextCheckpoint: 1, // order of the next gate to cross (segment 0 is the grid)
+	segmentIndex: 0, // segment of the last gate crossed
+	distance: 0, // centreline distance travelled since the start, including completed laps
+	lapStartTime: 0, // race time when the current lap started
+	currentLapTime: 0,
+	lastLapTime: 0, // 0 until a lap has been completed
+	bestLapTime: 0, // 0 until a lap has been completed
+	splitDelta: 0, // time at the last gate compared to the best lap, negative is faster
+	lapTimes: () => [] as number[],
+	splits: () => [] as number[], // current lap time at each gate of this lap, gate 1 first
+	bestSplits: () => [] as number[], // gate times of the best lap
+	previousPosition: () => new THREE.Vector3(), // used to detect gate crossings
+	finished: false,
+});
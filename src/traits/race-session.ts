@@ -0,0 +1,13 @@
+import { trait } from 'koota';
+
+export type RaceState = 'countdown' | 'racing' | 'finished';
+
+/**
+ * World-level race state shown by the HUD
+ */
+export const RaceSession = trait({
+	state: 'countdown' as RaceState,
+	countdown: 3, // seconds left before the start
+	elapsed: 0, // race time in seconds, counts from the start signal
+	totalLaps: 3, // laps to finish the race, 0 for an endless run
+});
@@ -0,0 +1,13 @@
+import { Entity, trait } from 'koota';
+import type * as Rapier from '@dimforge/rapier3d-compat';
+
+/**
+ * The world's Rapier simulation, used by the Rapier physics backend
+ * Created on the first Rapier step; bodies and colliders are made on demand
+ * for moving entities and track segments.
+ */
+export const RapierState = trait(() => ({
+	physics: null as Rapier.World | null,
+	bodies: new Map<Entity, Rapier.RigidBody>(), // rigid bodies of moving entities
+	trackColliders: new Map<Entity, Rapier.Collider[]>(), // road and barrier colliders of each track segment
+}));
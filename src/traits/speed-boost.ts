@@ -0,0 +1,10 @@
+import { trait } from 'koota';
+
+/**
+ * Temporary raise of a vehicle's speed cap above its MaxSpeed, given by boost pads
+ */
+export const SpeedBoost = trait({
+	bonus: 0, // added to MaxSpeed while time is left
+	time: 0, // seconds left
+	lastPad: '', // pad the vehicle is on, so driving over a pad triggers it once
+});
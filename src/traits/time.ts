@@ -1,3 +1,9 @@
 import { trait } from 'koota';
 
-export const Time = trait({ delta: 0, current: 0 });
+export const Time = trait({
+	delta: 0, // seconds per simulation step (the fixed step inside the game loop)
+	current: 0, // clock reading in milliseconds
+	fixedDelta: 1 / 60, // length of one simulation step in seconds
+	accumulator: 0, // real time not yet simulated, in seconds
+	alpha: 0, // how far the view is between the previous and current step (0..1)
+});
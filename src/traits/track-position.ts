@@ -0,0 +1,12 @@
+import { trait } from 'koota';
+import { createTrackProjection } from '../utils/track-query';
+
+/**
+ * Where a vehicle is in track coordinates, written by updateTrackPosition
+ * once per step right after the vehicle moves, so every system reading it
+ * shares one track lookup.
+ */
+export const TrackPosition = trait(() => ({
+	onTrack: false, // false when there was no track to project onto, the projection is then stale
+	projection: createTrackProjection(),
+}));
@@ -1,5 +1,7 @@
 import { trait } from 'koota';
 import * as THREE from 'three';
+import { TrackCurve } from '../utils/track-curve';
+import { BoostPad } from '../utils/track-generator';
 
 /**
  * Represents a track segment with properties for procedural generation
@@ -7,13 +9,19 @@ import * as THREE from 'three';
 export const TrackSegment = trait({
   index: 0, // position in the sequence of segments
   length: 50, // length of this segment in units
+  startDistance: 0, // centreline distance from the start of the track to this segment
   width: 20, // width of the track
-  type: 'straight', // 'straight', 'curve-left', 'curve-right', 'hill-up', 'hill-down'
-  curvature: 0, // how much the track curves (negative for left, positive for right)
+  type: 'straight', // 'straight', 'curve-left', 'curve-right', 'hill-up', 'hill-down', 'chicane', 's-curve'
+  curvature: 0, // peak curvature (1/radius), negative for left, positive for right
   elevation: 0, // elevation change from start to end
+  bank: 0, // peak bank (roll) angle in radians, positive leans into a right turn
   startPosition: () => new THREE.Vector3(), // world position where the segment starts
   endPosition: () => new THREE.Vector3(), // world position where the segment ends
   startDirection: () => new THREE.Vector3(0, 0, -1), // direction vector at start (normalized)
   endDirection: () => new THREE.Vector3(0, 0, -1), // direction vector at end (normalized)
-  controlPoints: () => [] as THREE.Vector3[], // control points for curved segments
+  startUp: () => new THREE.Vector3(0, 1, 0), // road surface normal at start
+  endUp: () => new THREE.Vector3(0, 1, 0), // road surface normal at end
+  controlPoints: () => [] as THREE.Vector3[], // evenly spaced samples along the centreline
+  curve: () => new TrackCurve(), // sampleable centreline with per-knot up vectors (see getFrameAt)
+  boostPads: () => [] as BoostPad[], // pads placed by the generator, see placeBoostPads
 }); 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Entity, trait } from 'koota';
+import { TRACK_CONFIG, TrackMode, TrackSegmentParams } from '../utils/track-generator';
+
+/**
+ * Layout of the world's track, kept by the track manager
+ * An endless track is streamed in and out around the player; a circuit is
+ * generated up front and stays loaded in full.
+ */
+export const TrackState = trait(() => ({
+	seed: TRACK_CONFIG.seed, // seed used to generate the current track
+	mode: 'endless' as TrackMode, // endless track or closed circuit
+	circuitLayout: [] as TrackSegmentParams[], // every segment of the circuit in driving order, empty in endless mode
+	segments: {} as Record<number, Entity>, // spawned segment entities by index
+	segmentCache: {} as Record<number, TrackSegmentParams>, // parameters of every generated segment by index
+	highestSegmentIndex: -1, // highest segment index generated so far
+	lowestActiveSegmentIndex: 0, // lowest segment index still spawned
+}));
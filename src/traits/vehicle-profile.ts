@@ -0,0 +1,15 @@
+import { trait } from 'koota';
+import { getVehicleProfile, splitHandling } from '../data/vehicle-profiles';
+
+const defaultProfile = getVehicleProfile();
+
+/**
+ * Handling of a vehicle, copied from its profile in data/vehicle-profiles.ts
+ * when it is spawned. Thrust, damping and top speed live in Movement and
+ * MaxSpeed; this holds the rest of what the driving systems need.
+ * Defaults are the default ship's profile.
+ */
+export const VehicleProfile = trait({
+	id: defaultProfile.id, // profile the vehicle was spawned from, also picks its model
+	...splitHandling(defaultProfile.handling).profile,
+});
@@ -0,0 +1,89 @@
+import { createLogger } from './logger';
+
+const log = createLogger('game');
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Any one event of an event map, tagged with its type
+ */
+export type BusEvent<Events> = { [K in keyof Events]: { type: K; payload: Events[K] } }[keyof Events];
+
+/**
+ * Typed channel for events between the simulation and its consumers
+ *
+ * Emitting only queues an event. Listeners are called when the queue is
+ * drained, once per tick after the simulation and view have run, so every
+ * listener sees the whole frame's events in the order they were emitted.
+ * Events emitted by listeners wait for the next drain.
+ */
+export class EventBus<Events extends object> {
+  private queue: BusEvent<Events>[] = [];
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+  private anyListeners = new Set<Listener<BusEvent<Events>>>();
+
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    this.queue.push({ type, payload } as BusEvent<Events>);
+  }
+
+  /**
+   * Calls the listener with every drained event of one type
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const listeners = this.listeners[type] ?? new Set<Listener<Events[K]>>();
+    this.listeners[type] = listeners;
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Calls the listener with every drained event, e.g. for analytics
+   * @returns Function that removes the listener
+   */
+  onAny(listener: Listener<BusEvent<Events>>): () => void {
+    this.anyListeners.add(listener);
+    return () => this.anyListeners.delete(listener);
+  }
+
+  /**
+   * Events of one type queued since the last drain
+   * For systems that react within the same frame, before listeners run.
+   */
+  pending<K extends keyof Events>(type: K): Events[K][] {
+    return this.queue.filter((event) => event.type === type).map((event) => event.payload as Events[K]);
+  }
+
+  /**
+   * Hands the queued events to the listeners, in emit order, and empties the queue
+   */
+  drain(): void {
+    if (this.queue.length === 0) return;
+
+    const events = this.queue;
+    this.queue = [];
+
+    for (const event of events) {
+      this.dispatch(this.listeners[event.type], event.payload);
+      this.dispatch(this.anyListeners, event);
+    }
+  }
+
+  /**
+   * Drops the queued events without calling any listener
+   */
+  clear(): void {
+    this.queue = [];
+  }
+
+  private dispatch<T>(listeners: Set<Listener<T>> | undefined, payload: T): void {
+    listeners?.forEach((listener) => {
+      // One broken listener must not stop the others or the game loop
+      try {
+        listener(payload);
+      } catch (error) {
+        log.error('Event listener failed', error);
+      }
+    });
+  }
+}
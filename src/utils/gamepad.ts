@@ -0,0 +1,78 @@
+/**
+ * Gamepad sampling helpers
+ *
+ * Sticks and triggers are analog, so before they reach the input actions
+ * they get a deadzone (to ignore drift around rest) and a response curve
+ * (to give finer control near the centre).
+ */
+
+export const GAMEPAD_CONFIG = {
+  stickDeadzone: 0.15,          // Stick deflection ignored around the centre
+  triggerDeadzone: 0.05,        // Trigger travel ignored at rest
+  stickExponent: 1.6,           // Response curve for sticks, > 1 is softer near the centre
+  triggerExponent: 1.2,         // Response curve for triggers
+  pressThreshold: 0.5,          // Value at which an analog control counts as pressed
+};
+
+// Names of the buttons and axes in the standard gamepad mapping
+const BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start',
+  'Left stick', 'Right stick', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right', 'Home',
+];
+const AXIS_NAMES = ['Left stick', 'Left stick', 'Right stick', 'Right stick'];
+// Triggers on the standard mapping report as buttons with analog values
+const ANALOG_BUTTONS = [6, 7];
+
+/**
+ * Rescales a value so the deadzone maps to 0 and full travel still reaches 1
+ */
+export function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadzone) return 0;
+  return (Math.sign(value) * (Math.min(magnitude, 1) - deadzone)) / (1 - deadzone);
+}
+
+/**
+ * Shapes a value in [-1, 1], keeping its sign
+ */
+export function applyResponseCurve(value: number, exponent: number): number {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+/**
+ * Connected gamepads, empty where the Gamepad API is unavailable (e.g. headless)
+ */
+export function getConnectedGamepads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return navigator.getGamepads().filter((gamepad): gamepad is Gamepad => !!gamepad && gamepad.connected);
+}
+
+/**
+ * Reads a button as a value in [0, 1], shaping analog triggers
+ */
+export function readGamepadButton(gamepad: Gamepad, button: number): number {
+  const state = gamepad.buttons[button];
+  if (!state) return 0;
+  if (!ANALOG_BUTTONS.includes(button)) return state.pressed ? 1 : 0;
+
+  const value = applyDeadzone(state.value, GAMEPAD_CONFIG.triggerDeadzone);
+  return applyResponseCurve(value, GAMEPAD_CONFIG.triggerExponent);
+}
+
+/**
+ * Reads one direction of a stick axis as a value in [0, 1]
+ * @param direction 1 for the positive half of the axis, -1 for the negative
+ */
+export function readGamepadAxis(gamepad: Gamepad, axis: number, direction: 1 | -1): number {
+  const value = applyDeadzone(gamepad.axes[axis] ?? 0, GAMEPAD_CONFIG.stickDeadzone);
+  return Math.max(0, applyResponseCurve(value, GAMEPAD_CONFIG.stickExponent) * direction);
+}
+
+export function getGamepadButtonName(button: number): string {
+  return BUTTON_NAMES[button] ?? `Button ${button}`;
+}
+
+export function getGamepadAxisName(axis: number, direction: 1 | -1): string {
+  const arrows = axis % 2 === 0 ? ['←', '→'] : ['↑', '↓'];
+  return `${AXIS_NAMES[axis] ?? `Axis ${axis}`} ${direction < 0 ? arrows[0] : arrows[1]}`;
+}
@@ -0,0 +1,295 @@
+import { createLogger } from './logger';
+import {
+  getConnectedGamepads,
+  getGamepadAxisName,
+  getGamepadButtonName,
+  GAMEPAD_CONFIG,
+} from './gamepad';
+
+const log = createLogger('input');
+
+/**
+ * Named input actions, what the game reacts to instead of raw keys
+ */
+export const INPUT_ACTIONS = [
+  'forward',
+  'brake',
+  'steerLeft',
+  'steerRight',
+  'rollLeft',
+  'rollRight',
+  'boost',
+  'drift',
+  'respawn',
+  'toggleFlight',
+] as const;
+
+export type InputAction = (typeof INPUT_ACTIONS)[number];
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  forward: 'Accelerate',
+  brake: 'Brake',
+  steerLeft: 'Steer left',
+  steerRight: 'Steer right',
+  rollLeft: 'Roll left',
+  rollRight: 'Roll right',
+  boost: 'Boost',
+  drift: 'Drift',
+  respawn: 'Respawn on track',
+  toggleFlight: 'Toggle flight mode',
+};
+
+// Actions that fire once per press instead of being held
+export const ONE_SHOT_ACTIONS: readonly InputAction[] = ['respawn', 'toggleFlight'];
+
+/**
+ * A physical control an action can be bound to
+ */
+export type InputBinding =
+  | { device: 'keyboard'; key: string } // KeyboardEvent.key, lower case
+  | { device: 'mouse'; button: number } // MouseEvent.button
+  | { device: 'gamepad'; button: number } // button index in the standard mapping
+  | { device: 'gamepadAxis'; axis: number; direction: 1 | -1 }; // one half of a stick axis
+
+export type InputBindings = Record<InputAction, InputBinding[]>;
+
+const key = (name: string): InputBinding => ({ device: 'keyboard', key: name });
+const pad = (button: number): InputBinding => ({ device: 'gamepad', button });
+const stick = (axis: number, direction: 1 | -1): InputBinding => ({ device: 'gamepadAxis', axis, direction });
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  forward: [key('w'), key('arrowup'), pad(7)],
+  brake: [key('s'), key('arrowdown'), key('shift'), pad(6)],
+  steerLeft: [key('a'), key('arrowleft'), stick(0, -1)],
+  steerRight: [key('d'), key('arrowright'), stick(0, 1)],
+  rollLeft: [key('q'), pad(4)],
+  rollRight: [key('e'), pad(5)],
+  boost: [key(' '), pad(0)],
+  drift: [key('c'), pad(1)],
+  respawn: [key('t'), pad(3)],
+  toggleFlight: [key('f'), pad(8)],
+};
+
+const STORAGE_KEY = 'quantum-drift.bindings';
+
+type BindingsListener = (bindings: InputBindings) => void;
+
+const listeners = new Set<BindingsListener>();
+let bindings: InputBindings = loadBindings();
+
+/**
+ * Identifies a binding, equal bindings give equal ids
+ */
+export function getBindingId(binding: InputBinding): string {
+  switch (binding.device) {
+    case 'keyboard': return `key:${binding.key}`;
+    case 'gamepadAxis': return `gamepadAxis:${binding.axis}${binding.direction < 0 ? '-' : '+'}`;
+    default: return `${binding.device}:${binding.button}`;
+  }
+}
+
+/**
+ * Human-readable name of a binding for the settings screen
+ */
+export function formatBinding(binding: InputBinding): string {
+  if (binding.device === 'mouse') {
+    return ['Left mouse', 'Middle mouse', 'Right mouse'][binding.button] ?? `Mouse ${binding.button}`;
+  }
+  if (binding.device === 'gamepad') return `Pad ${getGamepadButtonName(binding.button)}`;
+  if (binding.device === 'gamepadAxis') return `Pad ${getGamepadAxisName(binding.axis, binding.direction)}`;
+
+  switch (binding.key) {
+    case ' ': return 'Space';
+    case 'arrowup': return '↑';
+    case 'arrowdown': return '↓';
+    case 'arrowleft': return '←';
+    case 'arrowright': return '→';
+    default: return binding.key.length === 1 ? binding.key.toUpperCase() : binding.key[0].toUpperCase() + binding.key.slice(1);
+  }
+}
+
+function cloneBindings(source: InputBindings): InputBindings {
+  return Object.fromEntries(
+    INPUT_ACTIONS.map((action) => [action, source[action].map((binding) => ({ ...binding }))])
+  ) as InputBindings;
+}
+
+function isInputBinding(value: unknown): value is InputBinding {
+  if (typeof value !== 'object' || value === null) return false;
+  const binding = value as Record<string, unknown>;
+  return (binding.device === 'keyboard' && typeof binding.key === 'string') ||
+    ((binding.device === 'mouse' || binding.device === 'gamepad') && typeof binding.button === 'number') ||
+    (binding.device === 'gamepadAxis' && typeof binding.axis === 'number' && (binding.direction === 1 || binding.direction === -1));
+}
+
+/**
+ * Reads the saved bindings, falling back to the defaults for anything
+ * missing or unreadable (and outside the browser)
+ */
+function loadBindings(): InputBindings {
+  const loaded = cloneBindings(DEFAULT_BINDINGS);
+  if (typeof localStorage === 'undefined') return loaded;
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, unknown>;
+    for (const action of INPUT_ACTIONS) {
+      const list = saved[action];
+      if (Array.isArray(list)) loaded[action] = list.filter(isInputBinding);
+    }
+  } catch (error) {
+    log.warn('Ignoring unreadable saved bindings', error);
+  }
+
+  return loaded;
+}
+
+function saveBindings(): void {
+  if (typeof localStorage === 'undefined') return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    log.warn('Could not save bindings', error);
+  }
+}
+
+function commit(next: InputBindings): void {
+  bindings = next;
+  saveBindings();
+  listeners.forEach((listener) => listener(bindings));
+}
+
+/**
+ * Current bindings, treat as read-only and change them through the functions below
+ */
+export function getBindings(): InputBindings {
+  return bindings;
+}
+
+/**
+ * Actions a control is bound to
+ */
+export function getBoundActions(binding: InputBinding): InputAction[] {
+  const id = getBindingId(binding);
+  return INPUT_ACTIONS.filter((action) => bindings[action].some((bound) => getBindingId(bound) === id));
+}
+
+/**
+ * Binds a control to an action
+ * The control is taken away from any other action so one press never
+ * drives two actions.
+ * @param action Action to bind
+ * @param binding Control to bind it to
+ * @param index Binding of the action to replace, appended if omitted
+ */
+export function setBinding(action: InputAction, binding: InputBinding, index?: number): void {
+  const id = getBindingId(binding);
+  const next = cloneBindings(bindings);
+
+  for (const other of INPUT_ACTIONS) {
+    if (other !== action) next[other] = next[other].filter((bound) => getBindingId(bound) !== id);
+  }
+
+  const list = bindings[action].map((bound, i) => (i === index ? binding : bound));
+  if (index === undefined || index >= list.length) list.push(binding);
+  // Drop the duplicate if the action already had this control
+  next[action] = list.filter((bound, i) => list.findIndex((other) => getBindingId(other) === getBindingId(bound)) === i);
+
+  log.info(`Bound ${formatBinding(binding)} to ${action}`);
+  commit(next);
+}
+
+/**
+ * Removes one binding from an action
+ */
+export function removeBinding(action: InputAction, index: number): void {
+  const next = cloneBindings(bindings);
+  next[action].splice(index, 1);
+  commit(next);
+}
+
+/**
+ * Restores the default bindings for every action
+ */
+export function resetBindings(): void {
+  log.info('Bindings reset to defaults');
+  commit(cloneBindings(DEFAULT_BINDINGS));
+}
+
+/**
+ * Calls the listener whenever the bindings change
+ * @returns Function that removes the listener
+ */
+export function subscribeBindings(listener: BindingsListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Gamepad controls pushed past the press threshold right now
+ */
+function getHeldGamepadControls(): InputBinding[] {
+  const held: InputBinding[] = [];
+
+  for (const gamepad of getConnectedGamepads()) {
+    gamepad.buttons.forEach((button, index) => {
+      if (button.value > GAMEPAD_CONFIG.pressThreshold) held.push({ device: 'gamepad', button: index });
+    });
+    gamepad.axes.forEach((value, axis) => {
+      if (Math.abs(value) > GAMEPAD_CONFIG.pressThreshold) {
+        held.push({ device: 'gamepadAxis', axis, direction: value < 0 ? -1 : 1 });
+      }
+    });
+  }
+
+  return held;
+}
+
+/**
+ * Waits for the next key, mouse button or gamepad control and returns it as a binding
+ * Key and mouse presses are swallowed so the game does not react to them.
+ * Escape cancels.
+ * @returns The pressed control, or null if cancelled
+ */
+export function captureBinding(): Promise<InputBinding | null> {
+  return new Promise((resolve) => {
+    // Gamepads have no events for buttons, so they are polled every frame
+    // and anything already held (resting triggers, drifting sticks) is ignored
+    const heldAtStart = new Set(getHeldGamepadControls().map(getBindingId));
+    let frame = 0;
+
+    const finish = (binding: InputBinding | null) => {
+      window.removeEventListener('keydown', handleKey, true);
+      window.removeEventListener('mousedown', handleMouse, true);
+      cancelAnimationFrame(frame);
+      resolve(binding);
+    };
+
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      const name = e.key.toLowerCase();
+      finish(name === 'escape' ? null : { device: 'keyboard', key: name });
+    };
+
+    const handleMouse = (e: MouseEvent) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      finish({ device: 'mouse', button: e.button });
+    };
+
+    const pollGamepads = () => {
+      const binding = getHeldGamepadControls().find((held) => !heldAtStart.has(getBindingId(held)));
+      if (binding) {
+        finish(binding);
+      } else {
+        frame = requestAnimationFrame(pollGamepads);
+      }
+    };
+
+    // Capture phase, so this runs before the game's own listeners
+    window.addEventListener('keydown', handleKey, true);
+    window.addEventListener('mousedown', handleMouse, true);
+    frame = requestAnimationFrame(pollGamepads);
+  });
+}
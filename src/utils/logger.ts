@@ -0,0 +1,158 @@
+/**
+ * Small channel-based logger
+ *
+ * Every module logs through a channel, and each channel has its own level,
+ * so noisy areas can be turned up while debugging without flooding the
+ * console the rest of the time. All messages, printed or not, go into a
+ * ring buffer that can be dumped for bug reports.
+ */
+
+export const LOG_CHANNELS = ['game', 'track', 'input', 'physics', 'actions', 'render'] as const;
+export type LogChannel = (typeof LOG_CHANNELS)[number];
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export interface LogEntry {
+  time: number; // milliseconds since the page (or process) started
+  channel: LogChannel;
+  level: Exclude<LogLevel, 'silent'>;
+  message: string;
+  data: unknown[];
+}
+
+export interface Logger {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+}
+
+const DEFAULT_LEVEL: LogLevel = 'warn';
+const BUFFER_SIZE = 1000;
+
+const channelLevels = Object.fromEntries(
+  LOG_CHANNELS.map((channel) => [channel, DEFAULT_LEVEL])
+) as Record<LogChannel, LogLevel>;
+
+// Ring buffer of the latest entries, `next` is where the next one goes
+const buffer: LogEntry[] = [];
+let next = 0;
+
+const printers = {
+  debug: console.debug,
+  info: console.info,
+  warn: console.warn,
+  error: console.error,
+};
+
+function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function isLogChannel(value: string): value is LogChannel {
+  return (LOG_CHANNELS as readonly string[]).includes(value);
+}
+
+function record(entry: LogEntry) {
+  if (buffer.length < BUFFER_SIZE) {
+    buffer.push(entry);
+  } else {
+    buffer[next] = entry;
+  }
+  next = (next + 1) % BUFFER_SIZE;
+}
+
+/**
+ * Creates the logger for a channel
+ * @param channel Channel the messages belong to
+ */
+export function createLogger(channel: LogChannel): Logger {
+  const write = (level: LogEntry['level']) => (message: string, ...data: unknown[]) => {
+    record({ time: performance.now(), channel, level, message, data });
+
+    if (LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(channelLevels[channel])) {
+      printers[level](`[${channel}] ${message}`, ...data);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Sets the lowest level printed for a channel, or for every channel
+ */
+export function setLogLevel(channel: LogChannel | '*', level: LogLevel): void {
+  if (channel === '*') {
+    LOG_CHANNELS.forEach((name) => (channelLevels[name] = level));
+  } else {
+    channelLevels[channel] = level;
+  }
+}
+
+/**
+ * Current level of every channel
+ */
+export function getLogLevels(): Record<LogChannel, LogLevel> {
+  return { ...channelLevels };
+}
+
+/**
+ * Applies levels from a query string, e.g. `?log=debug` for everything or
+ * `?log=track:debug,physics:info` for single channels
+ * @param search Query string, typically window.location.search
+ */
+export function configureLogging(search: string): void {
+  const config = new URLSearchParams(search).get('log');
+  if (!config) return;
+
+  for (const part of config.split(',')) {
+    const [first, second] = part.trim().split(':');
+    if (second === undefined && isLogLevel(first)) {
+      setLogLevel('*', first);
+    } else if (isLogChannel(first) && isLogLevel(second)) {
+      setLogLevel(first, second);
+    }
+  }
+}
+
+/**
+ * Buffered entries, oldest first
+ */
+export function getLogEntries(): LogEntry[] {
+  return buffer.length < BUFFER_SIZE ? [...buffer] : [...buffer.slice(next), ...buffer.slice(0, next)];
+}
+
+/**
+ * Formats the buffered entries as text for a bug report
+ */
+export function dumpLogs(): string {
+  return getLogEntries()
+    .map(({ time, channel, level, message, data }) => {
+      const extra = data.length > 0 ? ` ${data.map(formatData).join(' ')}` : '';
+      return `${(time / 1000).toFixed(3)} ${level.toUpperCase()} [${channel}] ${message}${extra}`;
+    })
+    .join('\n');
+}
+
+export function clearLogs(): void {
+  buffer.length = 0;
+  next = 0;
+}
+
+function formatData(value: unknown): string {
+  if (value instanceof Error) return value.stack ?? value.message;
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
@@ -1,12 +1,42 @@
 /**
  * Perlin noise implementation for procedural generation
  * Adapted from improved noise algorithm by Ken Perlin
+ *
+ * Every PerlinNoise instance owns its own permutation table, shuffled by a
+ * seeded PRNG, so the same seed always produces the same noise field.
  */
 
-// Permutation table
-const permutation: number[] = Array.from({ length: 512 }, (_, i) => {
-  return i < 256 ? Math.floor(Math.random() * 256) : i - 256;
-});
+/**
+ * Mulberry32 pseudo random number generator
+ * Small, fast and fully deterministic for a given 32-bit seed
+ * @param seed - Seed value (truncated to an unsigned 32-bit integer)
+ * @returns Function returning floats in the range [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Combine a seed with an integer key into a new well-mixed seed
+ * Useful for deriving independent random streams, e.g. one per track segment
+ * @param seed - Base seed
+ * @param key - Integer to mix into the seed
+ * @returns Unsigned 32-bit seed
+ */
+export function hashSeed(seed: number, key: number): number {
+  let h = (seed ^ Math.imul(key, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
 
 /**
  * Linear interpolation
@@ -33,71 +63,152 @@ function grad(hash: number, x: number, y: number, z: number): number {
 }
 
 /**
- * Generate 3D Perlin noise
- * @param x - X coordinate
- * @param y - Y coordinate (optional, defaults to 0)
- * @param z - Z coordinate or seed (optional, defaults to 0)
- * @returns Noise value between -1 and 1
+ * Seeded 3D Perlin noise generator
  */
-export function noise(x: number, y: number = 0, z: number = 0): number {
-  // Scale inputs to make result more random-looking
-  x = x || 0;
-  y = y || 0;
-  z = z || 0;
-  
-  // Find unit cube that contains point
-  const X = Math.floor(x) & 255;
-  const Y = Math.floor(y) & 255;
-  const Z = Math.floor(z) & 255;
-  
-  // Find relative x, y, z of point in cube
-  x -= Math.floor(x);
-  y -= Math.floor(y);
-  z -= Math.floor(z);
-  
-  // Compute fade curves for each of x, y, z
-  const u = fade(x);
-  const v = fade(y);
-  const w = fade(z);
-  
-  // Hash coordinates of the 8 cube corners
-  const A = permutation[X] + Y;
-  const AA = permutation[A] + Z;
-  const AB = permutation[A + 1] + Z;
-  const B = permutation[X + 1] + Y;
-  const BA = permutation[B] + Z;
-  const BB = permutation[B + 1] + Z;
-  
-  // Add blended results from 8 corners of cube
-  return lerp(
-    w,
-    lerp(
-      v,
-      lerp(
-        u,
-        grad(permutation[AA], x, y, z),
-        grad(permutation[BA], x - 1, y, z)
-      ),
-      lerp(
-        u,
-        grad(permutation[AB], x, y - 1, z),
-        grad(permutation[BB], x - 1, y - 1, z)
-      )
-    ),
-    lerp(
-      v,
+export class PerlinNoise {
+  // Shuffled 0-255 table, duplicated to 512 entries to avoid index wrapping
+  private readonly permutation = new Uint8Array(512);
+
+  constructor(public readonly seed: number) {
+    const random = createRandom(seed);
+    const table = Array.from({ length: 256 }, (_, i) => i);
+
+    // Fisher-Yates shuffle driven by the seeded PRNG
+    for (let i = table.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [table[i], table[j]] = [table[j], table[i]];
+    }
+
+    for (let i = 0; i < 512; i++) {
+      this.permutation[i] = table[i & 255];
+    }
+  }
+
+  /**
+   * Generate 3D Perlin noise
+   * @param x - X coordinate
+   * @param y - Y coordinate (optional, defaults to 0)
+   * @param z - Z coordinate (optional, defaults to 0)
+   * @returns Noise value between -1 and 1
+   */
+  noise(x: number, y: number = 0, z: number = 0): number {
+    const p = this.permutation;
+
+    x = x || 0;
+    y = y || 0;
+    z = z || 0;
+
+    // Find unit cube that contains point
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+
+    // Find relative x, y, z of point in cube
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+
+    // Compute fade curves for each of x, y, z
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+
+    // Hash coordinates of the 8 cube corners
+    const A = p[X] + Y;
+    const AA = p[A] + Z;
+    const AB = p[A + 1] + Z;
+    const B = p[X + 1] + Y;
+    const BA = p[B] + Z;
+    const BB = p[B + 1] + Z;
+
+    // Add blended results from 8 corners of cube
+    return lerp(
+      w,
       lerp(
-        u,
-        grad(permutation[AA + 1], x, y, z - 1),
-        grad(permutation[BA + 1], x - 1, y, z - 1)
+        v,
+        lerp(u, grad(p[AA], x, y, z), grad(p[BA], x - 1, y, z)),
+        lerp(u, grad(p[AB], x, y - 1, z), grad(p[BB], x - 1, y - 1, z))
       ),
       lerp(
-        u,
-        grad(permutation[AB + 1], x, y - 1, z - 1),
-        grad(permutation[BB + 1], x - 1, y - 1, z - 1)
+        v,
+        lerp(u, grad(p[AA + 1], x, y, z - 1), grad(p[BA + 1], x - 1, y, z - 1)),
+        lerp(u, grad(p[AB + 1], x, y - 1, z - 1), grad(p[BB + 1], x - 1, y - 1, z - 1))
       )
-    )
-  );
+    );
+  }
+
+  /**
+   * Generate 2D Perlin noise
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @returns Noise value between -1 and 1
+   */
+  noise2d(x: number, y: number): number {
+    return this.noise(x, y, 0);
+  }
+
+  /**
+   * Generate 1D Perlin noise
+   * @param x - X coordinate
+   * @returns Noise value between -1 and 1
+   */
+  noise1d(x: number): number {
+    return this.noise(x, 0, 0);
+  }
+
+  /**
+   * Generate octaved Perlin noise with multiple frequencies
+   * @param x - X coordinate
+   * @param y - Y coordinate
+   * @param octaves - Number of octaves
+   * @param persistence - How much each octave contributes
+   * @returns Noise value between -1 and 1
+   */
+  octaveNoise(x: number, y: number = 0, octaves: number = 4, persistence: number = 0.5): number {
+    let total = 0;
+    let frequency = 1;
+    let amplitude = 1;
+    let maxValue = 0;
+
+    for (let i = 0; i < octaves; i++) {
+      total += this.noise(x * frequency, y * frequency, 0) * amplitude;
+      maxValue += amplitude;
+      amplitude *= persistence;
+      frequency *= 2;
+    }
+
+    // Return normalized value
+    return total / maxValue;
+  }
+}
+
+// Cache of generators so repeated lookups for the same seed share one table
+const noiseCache = new Map<number, PerlinNoise>();
+
+/**
+ * Get the (cached) noise generator for a seed
+ * @param seed - Seed value
+ * @returns PerlinNoise instance for that seed
+ */
+export function getNoise(seed: number): PerlinNoise {
+  let generator = noiseCache.get(seed);
+  if (!generator) {
+    generator = new PerlinNoise(seed);
+    noiseCache.set(seed, generator);
+  }
+  return generator;
+}
+
+/**
+ * Generate 3D Perlin noise
+ * @param x - X coordinate
+ * @param y - Y coordinate (optional, defaults to 0)
+ * @param z - Z coordinate (optional, defaults to 0)
+ * @param seed - Optional seed value selecting the permutation table
+ * @returns Noise value between -1 and 1
+ */
+export function noise(x: number, y: number = 0, z: number = 0, seed: number = 0): number {
+  return getNoise(seed).noise(x, y, z);
 }
 
 /**
@@ -108,7 +219,7 @@ export function noise(x: number, y: number = 0, z: number = 0): number {
  * @returns Noise value between -1 and 1
  */
 export function noise2d(x: number, y: number, seed: number = 0): number {
-  return noise(x, y, seed);
+  return getNoise(seed).noise2d(x, y);
 }
 
 /**
@@ -118,7 +229,7 @@ export function noise2d(x: number, y: number, seed: number = 0): number {
  * @returns Noise value between -1 and 1
  */
 export function noise1d(x: number, seed: number = 0): number {
-  return noise(x, 0, seed);
+  return getNoise(seed).noise1d(x);
 }
 
 /**
@@ -137,18 +248,5 @@ export function octaveNoise(
   persistence: number = 0.5,
   seed: number = 0
 ): number {
-  let total = 0;
-  let frequency = 1;
-  let amplitude = 1;
-  let maxValue = 0;
-  
-  for (let i = 0; i < octaves; i++) {
-    total += noise(x * frequency, y * frequency, seed) * amplitude;
-    maxValue += amplitude;
-    amplitude *= persistence;
-    frequency *= 2;
-  }
-  
-  // Return normalized value
-  return total / maxValue;
-} 
\ No newline at end of file
+  return getNoise(seed).octaveNoise(x, y, octaves, persistence);
+}
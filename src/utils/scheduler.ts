@@ -0,0 +1,199 @@
+import { World } from 'koota';
+
+export type System = (world: World) => void;
+
+/**
+ * Phases run in this order. Fixed phases run once per simulation step (which
+ * may be zero or several times a frame), the others once per rendered frame.
+ */
+export const PHASES = [
+  { name: 'input', fixed: false },
+  { name: 'physics', fixed: true },
+  { name: 'track', fixed: true },
+  { name: 'camera', fixed: true },
+  { name: 'view', fixed: false },
+] as const;
+
+export type SystemPhase = (typeof PHASES)[number]['name'];
+
+export interface SystemOptions {
+  phase: SystemPhase;
+  before?: string[]; // systems in the same phase this one must run before
+  after?: string[]; // systems in the same phase this one must run after
+  enabled?: boolean;
+}
+
+/**
+ * Read-only view of a registered system, for the debug UI
+ */
+export interface SystemInfo {
+  name: string;
+  phase: SystemPhase;
+  enabled: boolean;
+  lastTime: number; // milliseconds spent in the last frame
+  averageTime: number; // smoothed milliseconds per frame
+}
+
+interface ScheduledSystem extends SystemInfo {
+  run: System;
+  before: string[];
+  after: string[];
+  frameTime: number; // milliseconds spent so far this frame
+}
+
+// Weight of the latest frame in the smoothed timings
+const TIMING_SMOOTHING = 0.1;
+
+/**
+ * Runs systems by phase, ordered by their before/after constraints
+ *
+ * Systems register with a name and a phase instead of being called from a
+ * hand-written list, and can be switched off at runtime. Time spent in each
+ * system is recorded so it can be shown in the debug UI.
+ */
+export class Scheduler {
+  private systems: ScheduledSystem[] = [];
+  // Systems of each phase in run order, rebuilt when registrations change
+  private order: Map<SystemPhase, ScheduledSystem[]> | null = null;
+
+  /**
+   * Registers a system
+   * @param name Unique name, used by constraints and the debug UI
+   * @param run The system function
+   * @param options Phase, ordering constraints and whether it starts enabled
+   */
+  add(name: string, run: System, options: SystemOptions): this {
+    if (this.systems.some((system) => system.name === name)) {
+      throw new Error(`System "${name}" is already registered`);
+    }
+
+    this.systems.push({
+      name,
+      run,
+      phase: options.phase,
+      before: options.before ?? [],
+      after: options.after ?? [],
+      enabled: options.enabled ?? true,
+      lastTime: 0,
+      averageTime: 0,
+      frameTime: 0,
+    });
+    this.order = null;
+    return this;
+  }
+
+  /**
+   * Unregisters a system
+   */
+  remove(name: string): void {
+    this.systems = this.systems.filter((system) => system.name !== name);
+    this.order = null;
+  }
+
+  setEnabled(name: string, enabled: boolean): void {
+    const system = this.systems.find((candidate) => candidate.name === name);
+    if (system) system.enabled = enabled;
+  }
+
+  isEnabled(name: string): boolean {
+    return this.systems.find((system) => system.name === name)?.enabled ?? false;
+  }
+
+  /**
+   * Registered systems in run order
+   */
+  getSystems(): SystemInfo[] {
+    const order = this.getOrder();
+    return PHASES.flatMap((phase) => order.get(phase.name)!).map(
+      ({ name, phase, enabled, lastTime, averageTime }) => ({ name, phase, enabled, lastTime, averageTime })
+    );
+  }
+
+  /**
+   * Runs every enabled system of one phase
+   */
+  runPhase(world: World, phase: SystemPhase): void {
+    for (const system of this.getOrder().get(phase)!) {
+      if (!system.enabled) continue;
+
+      const start = performance.now();
+      system.run(world);
+      system.frameTime += performance.now() - start;
+    }
+  }
+
+  /**
+   * Runs the fixed phases once, i.e. one simulation step
+   */
+  step(world: World): void {
+    for (const phase of PHASES) {
+      if (phase.fixed) this.runPhase(world, phase.name);
+    }
+  }
+
+  /**
+   * Runs a whole frame: input, as many simulation steps as are due, then the view
+   * @param world World instance
+   * @param nextStep Returns true while another simulation step should run
+   */
+  tick(world: World, nextStep: (world: World) => boolean): void {
+    this.runPhase(world, 'input');
+    while (nextStep(world)) {
+      this.step(world);
+    }
+    this.runPhase(world, 'view');
+    this.endFrame();
+  }
+
+  /**
+   * Publishes this frame's timings and starts a new frame
+   */
+  endFrame(): void {
+    for (const system of this.systems) {
+      system.lastTime = system.frameTime;
+      system.averageTime += (system.frameTime - system.averageTime) * TIMING_SMOOTHING;
+      system.frameTime = 0;
+    }
+  }
+
+  private getOrder(): Map<SystemPhase, ScheduledSystem[]> {
+    if (!this.order) {
+      this.order = new Map(PHASES.map((phase) => [phase.name, this.sortPhase(phase.name)]));
+    }
+    return this.order;
+  }
+
+  /**
+   * Orders the systems of a phase so every before/after constraint holds,
+   * keeping registration order where the constraints allow
+   */
+  private sortPhase(phase: SystemPhase): ScheduledSystem[] {
+    const systems = this.systems.filter((system) => system.phase === phase);
+    const names = new Set(systems.map((system) => system.name));
+    const dependencies = new Map<string, Set<string>>(systems.map((system) => [system.name, new Set<string>()]));
+
+    for (const system of systems) {
+      for (const other of system.after) {
+        if (names.has(other)) dependencies.get(system.name)!.add(other);
+      }
+      for (const other of system.before) {
+        if (names.has(other)) dependencies.get(other)!.add(system.name);
+      }
+    }
+
+    const sorted: ScheduledSystem[] = [];
+    const remaining = [...systems];
+
+    while (remaining.length > 0) {
+      const index = remaining.findIndex((system) =>
+        [...dependencies.get(system.name)!].every((name) => sorted.some((done) => done.name === name))
+      );
+      if (index === -1) {
+        throw new Error(`Systems in phase "${phase}" have circular constraints: ${remaining.map((s) => s.name).join(', ')}`);
+      }
+      sorted.push(...remaining.splice(index, 1));
+    }
+
+    return sorted;
+  }
+}
@@ -76,6 +76,18 @@ export class SpatialHashMap {
     return entities;
   }
 
+  /**
+   * Calls back with the minimum corner and entity count of every occupied cell
+   */
+  forEachCell(callback: (x: number, y: number, z: number, count: number) => void) {
+    for (const [hash, cell] of this.cells) {
+      if (cell.size === 0) continue;
+
+      const [hx, hy, hz] = hash.split(':').map(Number);
+      callback(hx * this.cellSize, hy * this.cellSize, hz * this.cellSize, cell.size);
+    }
+  }
+
   reset() {
     this.cells.clear();
     this.entityToCell.clear();
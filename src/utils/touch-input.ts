@@ -0,0 +1,120 @@
+import { applyDeadzone } from './gamepad';
+import { createLogger } from './logger';
+
+const log = createLogger('input');
+
+export const TOUCH_CONFIG = {
+  steerDeadzone: 0.1,           // Joystick travel ignored around the centre
+  tiltDeadzone: 3,              // Degrees of tilt ignored around level
+  tiltRange: 30,                // Degrees of tilt for full steering lock
+};
+
+/**
+ * State of the on-screen controls, written by the touch overlay and read by pollInput
+ */
+const state = {
+  steer: 0, // joystick, -1 (left) to 1 (right)
+  tilt: 0, // device tilt, -1 (left) to 1 (right)
+  throttle: 0,
+  brake: 0,
+  boost: false,
+  tiltEnabled: false,
+};
+
+export type TouchInput = Readonly<typeof state>;
+
+/**
+ * Whether the device has a touch screen as its main pointer
+ * Such devices get the touch overlay and never request pointer lock.
+ */
+export function isTouchDevice(): boolean {
+  if (typeof window === 'undefined') return false;
+  const coarse = typeof window.matchMedia === 'function' && window.matchMedia('(pointer: coarse)').matches;
+  return coarse && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+}
+
+export function getTouchInput(): TouchInput {
+  return state;
+}
+
+/**
+ * Sets the joystick steering, applying the deadzone
+ * @param value Joystick offset, -1 (left) to 1 (right)
+ */
+export function setTouchSteer(value: number): void {
+  state.steer = applyDeadzone(Math.max(-1, Math.min(1, value)), TOUCH_CONFIG.steerDeadzone);
+}
+
+export function setTouchButton(control: 'throttle' | 'brake' | 'boost', held: boolean): void {
+  if (control === 'boost') {
+    state.boost = held;
+  } else {
+    state[control] = held ? 1 : 0;
+  }
+}
+
+/**
+ * Steering combined from the joystick and, when enabled, device tilt
+ */
+export function getTouchSteer(): number {
+  return Math.max(-1, Math.min(1, state.steer + (state.tiltEnabled ? state.tilt : 0)));
+}
+
+/**
+ * Releases every on-screen control, e.g. when the overlay unmounts
+ */
+export function resetTouchInput(): void {
+  state.steer = 0;
+  state.throttle = 0;
+  state.brake = 0;
+  state.boost = false;
+}
+
+// Side-to-side tilt of the device in degrees, for its current orientation
+function getTiltAngle(e: DeviceOrientationEvent): number {
+  const angle = typeof screen !== 'undefined' && screen.orientation ? screen.orientation.angle : 0;
+  if (angle === 90) return e.beta ?? 0;
+  if (angle === 270 || angle === -90) return -(e.beta ?? 0);
+  return e.gamma ?? 0;
+}
+
+const handleOrientation = (e: DeviceOrientationEvent) => {
+  const tilt = applyDeadzone(getTiltAngle(e) / TOUCH_CONFIG.tiltRange, TOUCH_CONFIG.tiltDeadzone / TOUCH_CONFIG.tiltRange);
+  state.tilt = Math.max(-1, Math.min(1, tilt));
+};
+
+// iOS only delivers orientation events after the user grants permission
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+/**
+ * Turns tilt steering on or off
+ * Must be called from a user gesture, as iOS asks for permission the first time.
+ * @returns Whether tilt steering is now enabled
+ */
+export async function setTiltSteering(enabled: boolean): Promise<boolean> {
+  if (!enabled) {
+    window.removeEventListener('deviceorientation', handleOrientation);
+    state.tiltEnabled = false;
+    state.tilt = 0;
+    return false;
+  }
+
+  if (typeof DeviceOrientationEvent === 'undefined') return false;
+
+  const orientationEvent = DeviceOrientationEvent as OrientationEventWithPermission;
+  if (orientationEvent.requestPermission) {
+    try {
+      if (await orientationEvent.requestPermission() !== 'granted') return false;
+    } catch (error) {
+      log.warn('Tilt steering permission request failed', error);
+      return false;
+    }
+  }
+
+  window.addEventListener('deviceorientation', handleOrientation);
+  state.tiltEnabled = true;
+  log.info('Tilt steering enabled');
+  return true;
+}
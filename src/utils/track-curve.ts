@@ -0,0 +1,215 @@
+import * as THREE from 'three';
+
+/**
+ * A sample on the track centreline: a world position, its unit tangent and
+ * the road surface normal (up), which carries any banking or twist
+ */
+export interface CurveKnot {
+  position: THREE.Vector3;
+  tangent: THREE.Vector3;
+  up: THREE.Vector3;
+}
+
+/**
+ * Orthonormal frame of the road at a point on the centreline
+ */
+export interface TrackFrame {
+  position: THREE.Vector3;
+  tangent: THREE.Vector3; // direction of travel
+  up: THREE.Vector3; // road surface normal
+  right: THREE.Vector3; // towards the right-hand edge of the road
+}
+
+/**
+ * Creates an empty frame to be filled by TrackCurve.getFrameAt
+ */
+export function createTrackFrame(): TrackFrame {
+  return {
+    position: new THREE.Vector3(),
+    tangent: new THREE.Vector3(0, 0, -1),
+    up: new THREE.Vector3(0, 1, 0),
+    right: new THREE.Vector3(1, 0, 0),
+  };
+}
+
+// Samples used for the coarse pass of closest-point queries
+const CLOSEST_POINT_SAMPLES = 32;
+
+const scratchPoint = new THREE.Vector3();
+const scratchTangent = new THREE.Vector3();
+
+/**
+ * Piecewise cubic Hermite spline through a list of knots
+ *
+ * Position and tangent are continuous at every knot, and consecutive track
+ * segments share their end/start knot, so the whole centreline is C1.
+ * Extending THREE.Curve gives us arc-length parameterised sampling for free
+ * (getPointAt, getTangentAt, getSpacedPoints, getLength).
+ */
+export class TrackCurve extends THREE.Curve<THREE.Vector3> {
+  readonly knots: CurveKnot[];
+  // Chord length of each span, used to scale the unit knot tangents
+  private readonly spanLengths: number[] = [];
+  // Curve parameter at each knot, proportional to accumulated chord length
+  private readonly knotParams: number[] = [];
+  // Evenly spaced points used as a starting guess for closest-point queries
+  private searchPoints: THREE.Vector3[] | null = null;
+
+  constructor(knots: CurveKnot[] = []) {
+    super();
+    this.knots = knots;
+
+    let total = 0;
+    this.knotParams.push(0);
+    for (let i = 1; i < knots.length; i++) {
+      const span = knots[i].position.distanceTo(knots[i - 1].position);
+      this.spanLengths.push(span);
+      total += span;
+      this.knotParams.push(total);
+    }
+    for (let i = 0; i < this.knotParams.length; i++) {
+      this.knotParams[i] = total > 0 ? this.knotParams[i] / total : 0;
+    }
+
+    // Enough divisions for accurate arc-length lookups on tight curves
+    this.arcLengthDivisions = Math.max(200, knots.length * 24);
+  }
+
+  /**
+   * Finds the span containing curve parameter t
+   * @returns Span index and the local parameter inside that span
+   */
+  private locate(t: number): { span: number; u: number } {
+    const params = this.knotParams;
+    const clamped = THREE.MathUtils.clamp(t, 0, 1);
+
+    let span = 0;
+    while (span < params.length - 2 && clamped > params[span + 1]) {
+      span++;
+    }
+
+    const range = params[span + 1] - params[span];
+    const u = range > 0 ? (clamped - params[span]) / range : 0;
+    return { span, u };
+  }
+
+  getPoint(t: number, optionalTarget: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const knots = this.knots;
+    if (knots.length === 0) return optionalTarget.set(0, 0, 0);
+    if (knots.length === 1) return optionalTarget.copy(knots[0].position);
+
+    const { span, u } = this.locate(t);
+    const p0 = knots[span];
+    const p1 = knots[span + 1];
+    const h = this.spanLengths[span];
+
+    // Cubic Hermite basis functions
+    const u2 = u * u;
+    const u3 = u2 * u;
+    const h00 = 2 * u3 - 3 * u2 + 1;
+    const h10 = u3 - 2 * u2 + u;
+    const h01 = -2 * u3 + 3 * u2;
+    const h11 = u3 - u2;
+
+    return optionalTarget
+      .set(0, 0, 0)
+      .addScaledVector(p0.position, h00)
+      .addScaledVector(p0.tangent, h10 * h)
+      .addScaledVector(p1.position, h01)
+      .addScaledVector(p1.tangent, h11 * h);
+  }
+
+  getTangent(t: number, optionalTarget: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const knots = this.knots;
+    if (knots.length === 0) return optionalTarget.set(0, 0, -1);
+    if (knots.length === 1) return optionalTarget.copy(knots[0].tangent);
+
+    const { span, u } = this.locate(t);
+    const p0 = knots[span];
+    const p1 = knots[span + 1];
+    const h = this.spanLengths[span];
+
+    // Derivatives of the Hermite basis functions
+    const u2 = u * u;
+    const d00 = 6 * u2 - 6 * u;
+    const d10 = 3 * u2 - 4 * u + 1;
+    const d01 = -6 * u2 + 6 * u;
+    const d11 = 3 * u2 - 2 * u;
+
+    return optionalTarget
+      .set(0, 0, 0)
+      .addScaledVector(p0.position, d00)
+      .addScaledVector(p0.tangent, d10 * h)
+      .addScaledVector(p1.position, d01)
+      .addScaledVector(p1.tangent, d11 * h)
+      .normalize();
+  }
+
+  /**
+   * Road surface normal at curve parameter t
+   * Interpolates the knot up vectors and keeps the result perpendicular to the tangent.
+   */
+  getUp(t: number, optionalTarget: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const knots = this.knots;
+    if (knots.length === 0) return optionalTarget.set(0, 1, 0);
+    if (knots.length === 1) return optionalTarget.copy(knots[0].up);
+
+    const { span, u } = this.locate(t);
+    const tangent = this.getTangent(t, scratchTangent);
+
+    optionalTarget.lerpVectors(knots[span].up, knots[span + 1].up, u);
+    return optionalTarget.addScaledVector(tangent, -optionalTarget.dot(tangent)).normalize();
+  }
+
+  /**
+   * Full road frame at arc-length parameter u (0..1)
+   * @param u Fraction of the curve length
+   * @param frame Frame to write into
+   */
+  getFrameAt(u: number, frame: TrackFrame = createTrackFrame()): TrackFrame {
+    const t = this.getUtoTmapping(u, u * this.getLength());
+
+    this.getPoint(t, frame.position);
+    this.getTangent(t, frame.tangent);
+    this.getUp(t, frame.up);
+    frame.right.crossVectors(frame.tangent, frame.up).normalize();
+    return frame;
+  }
+
+  /**
+   * Finds the arc-length parameter of the centreline point closest to a position
+   * Starts from the nearest of a set of evenly spaced samples and refines by
+   * projecting onto the local tangent.
+   * @param point World position to project
+   * @returns Arc-length parameter u in 0..1
+   */
+  getClosestParameter(point: THREE.Vector3): number {
+    const length = this.getLength();
+    if (length === 0) return 0;
+
+    if (!this.searchPoints) {
+      this.searchPoints = this.getSpacedPoints(CLOSEST_POINT_SAMPLES);
+    }
+
+    let u = 0;
+    let closest = Infinity;
+    this.searchPoints.forEach((sample, i) => {
+      const distance = sample.distanceToSquared(point);
+      if (distance < closest) {
+        closest = distance;
+        u = i / CLOSEST_POINT_SAMPLES;
+      }
+    });
+
+    // A couple of Newton-style steps along the tangent
+    for (let i = 0; i < 3; i++) {
+      const t = this.getUtoTmapping(u, u * length);
+      this.getPoint(t, scratchPoint);
+      this.getTangent(t, scratchTangent);
+      const step = scratchPoint.subVectors(point, scratchPoint).dot(scratchTangent) / length;
+      u = THREE.MathUtils.clamp(u + step, 0, 1);
+    }
+
+    return u;
+  }
+}
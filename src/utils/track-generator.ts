@@ -1,256 +1,505 @@
 import * as THREE from 'three';
-import { noise } from './perlin';
+import { createRandom, getNoise, hashSeed } from './perlin';
+import { CurveKnot, TrackCurve } from './track-curve';
+import { createLogger } from './logger';
 
 export type SegmentType = 'straight' | 'curve-left' | 'curve-right' | 'hill-up' | 'hill-down' | 'chicane' | 's-curve';
 
+/**
+ * A boost pad on the road surface, in the coordinates of its segment
+ */
+export interface BoostPad {
+  along: number;              // Distance of the pad's centre from the start of the segment
+  offset: number;             // Lateral offset from the centreline, positive to the right
+}
+
 export interface TrackSegmentParams {
   startPosition: THREE.Vector3;
   startDirection: THREE.Vector3;
+  startUp: THREE.Vector3;     // Road surface normal at the start
   endPosition: THREE.Vector3;
   endDirection: THREE.Vector3;
+  endUp: THREE.Vector3;       // Road surface normal at the end
   controlPoints: THREE.Vector3[];
+  curve: TrackCurve;          // Sampleable centreline of the segment
+  curvature: number;          // Peak curvature (1/radius), positive turns right
+  elevation: number;          // Height change from start to end
+  bank: number;               // Peak bank (roll) angle in radians, positive leans right
   length: number;
+  startDistance: number;      // Centreline distance from the start of the track to this segment
   width: number;
   type: SegmentType;
+  boostPads: BoostPad[];
 }
 
 // Configuration for track generation - simplified for stability and debugging
 export const TRACK_CONFIG = {
   segmentLength: 50,          // Length of each segment
   trackWidth: 20,             // Width of the track
-  minCurvature: -0.1,         // Reduced curvature for stability
-  maxCurvature: 0.1,          // Reduced curvature for stability
+  minCurvature: 0.008,        // Peak curvature of the gentlest curve (1/radius)
+  maxCurvature: 0.02,         // Peak curvature of the tightest curve (1/radius)
   minElevation: -0.5,         // Minimal elevation change for debugging
   maxElevation: 0.5,          // Minimal elevation change for debugging
-  curveFrequency: 0.2,        // Less frequent curves
-  elevationFrequency: 0.1,    // Less frequent elevation changes
+  curveFrequency: 0.2,        // Chance of a curve segment
+  elevationFrequency: 0.1,    // Chance of a hill segment
   chicaneChance: 0.02,        // Very rare chicanes
   sCurveChance: 0.02,         // Very rare S-curves
+  chicaneCurvature: 0.04,     // Peak curvature at the middle chicane apex
+  bankPerCurvature: 15,       // Bank angle (radians) per unit of curvature
+  maxBankAngle: 0.35,         // Steepest banking in radians (about 20 degrees)
   renderDistance: 8,          // More segments visible at once
-  seed: 12345,                // Fixed seed for consistent generation
-  pointsPerSegment: 4,        // Fewer control points for simpler segments
+  seed: 12345,                // Default seed, the same seed always yields the same track
+  pointsPerSegment: 8,        // Centreline samples stored as control points
+  knotsPerSegment: 8,         // Hermite spans used to build each segment curve
+  circuitRadius: 250,         // Average radius of a closed circuit
+  circuitRadiusVariation: 0.3, // How far circuit corners may move in or out (fraction of radius)
+  circuitHeightVariation: 4,  // Maximum height of circuit corners above or below the start
+  circuitCorners: 10,         // Corners used to shape a closed circuit
+  boostPadChance: 0.15,       // Chance of a boost pad on a straight or hill segment
+  boostPadLength: 4,          // Length of a boost pad along the road
+  boostPadWidth: 4,           // Width of a boost pad across the road
 };
 
-// Debug flag
-const DEBUG = true;
+/**
+ * 'endless' streams new segments ahead of the player forever,
+ * 'circuit' is a finite closed loop that is raced in laps
+ */
+export type TrackMode = 'endless' | 'circuit';
+
+// Random stream reserved for circuit layouts, kept apart from per-segment streams
+const CIRCUIT_STREAM = 0x0c1ac0;
+// Random stream for boost pads, kept apart from the segment streams so pads never change a layout
+const BOOST_PAD_STREAM = 0xb0057;
+
+// Integration steps per Hermite span when building a segment
+const STEPS_PER_KNOT = 8;
+
+const log = createLogger('track');
 
 /**
- * Calculate control points for a segment based on start/end points and directions
+ * Shape of a segment expressed in its own local frame
  */
-function calculateControlPoints(
-  startPos: THREE.Vector3, 
-  startDir: THREE.Vector3,
-  endPos: THREE.Vector3,
-  endDir: THREE.Vector3,
-  numPoints: number = TRACK_CONFIG.pointsPerSegment
-): THREE.Vector3[] {
-  const points: THREE.Vector3[] = [];
-  const segmentLength = startPos.distanceTo(endPos);
-  
-  // Always include start point
-  points.push(startPos.clone());
-  
-  // Calculate intermediate control points
-  for (let i = 1; i < numPoints - 1; i++) {
-    const t = i / (numPoints - 1);
-    
-    // Hermite interpolation for smooth curves
-    const h1 = 2 * Math.pow(t, 3) - 3 * Math.pow(t, 2) + 1;
-    const h2 = -2 * Math.pow(t, 3) + 3 * Math.pow(t, 2);
-    const h3 = Math.pow(t, 3) - 2 * Math.pow(t, 2) + t;
-    const h4 = Math.pow(t, 3) - Math.pow(t, 2);
-    
-    // Calculate point
-    const point = new THREE.Vector3()
-      .addScaledVector(startPos, h1)
-      .addScaledVector(endPos, h2)
-      .addScaledVector(startDir, h3 * segmentLength)
-      .addScaledVector(endDir, h4 * segmentLength);
-    
-    points.push(point);
-  }
-  
-  // Always include end point
-  points.push(endPos.clone());
-  
-  return points;
+export interface SegmentShape {
+  type: SegmentType;
+  curvature: number;                    // Peak curvature, positive turns right
+  curvatureProfile: (u: number) => number; // Normalised curvature along the segment (u in 0..1)
+  elevation: number;                    // Height gained over the segment
 }
 
+const STRAIGHT_PROFILE = () => 0;
+// Eases in and out of the apex so curvature is zero where segments meet
+const CURVE_PROFILE = (u: number) => Math.pow(Math.sin(Math.PI * u), 2);
+// Two opposite apexes with no net heading change, shifting the racing line sideways
+const S_CURVE_PROFILE = (u: number) => Math.sin(2 * Math.PI * u);
+// Three alternating apexes (the middle one tightest) with no net heading change
+const CHICANE_PROFILE = (u: number) => 0.75 * (Math.sin(3 * Math.PI * u) - Math.sin(Math.PI * u) / 3);
+
 /**
- * Generate the first track segment
+ * Pitch of the centreline for a hill, following the slope of a smoothstep
+ * height profile so the pitch is zero at both ends of the segment
  */
-export function generateFirstSegment(): TrackSegmentParams {
-  console.log("Generating FIRST track segment - should be straight");
-  
-  const startPosition = new THREE.Vector3(0, 0, 0);
-  const startDirection = new THREE.Vector3(0, 0, -1); // Forward along negative Z
-  
-  // First segment is always straight
-  const endPosition = new THREE.Vector3(
-    0, 
-    0, 
-    -TRACK_CONFIG.segmentLength
+function hillPitch(elevation: number, length: number, u: number): number {
+  return Math.atan((elevation * 6 * u * (1 - u)) / length);
+}
+
+/**
+ * Bank (roll) angle for a given curvature, tilting the road into the turn
+ */
+function bankForCurvature(curvature: number): number {
+  return THREE.MathUtils.clamp(
+    curvature * TRACK_CONFIG.bankPerCurvature,
+    -TRACK_CONFIG.maxBankAngle,
+    TRACK_CONFIG.maxBankAngle
   );
-  const endDirection = new THREE.Vector3(0, 0, -1);
-  
-  const controlPoints = [
-    startPosition.clone(), 
-    new THREE.Vector3(0, 0, -TRACK_CONFIG.segmentLength/3),
-    new THREE.Vector3(0, 0, -TRACK_CONFIG.segmentLength*2/3),
-    endPosition.clone()
-  ];
-  
+}
+
+/**
+ * Builds a segment by integrating its curvature profile in the local frame
+ * of the start pose. The frame (forward, up) is parallel-transported along
+ * the centreline: turns rotate it about the local up, hills about the local
+ * right, so the end direction and up always agree with where the centreline
+ * actually ends up. Banking is applied on top as a roll about the tangent and
+ * fades out at both ends, so neighbouring segments share the same frame.
+ * @param startPosition World position where the segment starts
+ * @param startDirection Direction of travel at the start
+ * @param shape Curvature and elevation description of the segment
+ * @param startUp Road up vector at the start (unbanked)
+ * @param length Length of the segment along the centreline
+ */
+export function buildSegment(
+  startPosition: THREE.Vector3,
+  startDirection: THREE.Vector3,
+  shape: SegmentShape,
+  startUp: THREE.Vector3 = new THREE.Vector3(0, 1, 0),
+  length: number = TRACK_CONFIG.segmentLength
+): TrackSegmentParams {
+  // Local frame at the start, up made exactly perpendicular to forward
+  const forward = startDirection.clone().normalize();
+  const up = startUp.clone().addScaledVector(forward, -startUp.dot(forward)).normalize();
+  const right = new THREE.Vector3().crossVectors(forward, up).normalize();
+  const position = startPosition.clone();
+
+  const spans = TRACK_CONFIG.knotsPerSegment;
+  const steps = spans * STEPS_PER_KNOT;
+  const ds = length / steps;
+
+  const rotation = new THREE.Quaternion();
+  const yaw = new THREE.Quaternion();
+  const pitch = new THREE.Quaternion();
+  let bank = 0;
+
+  const rotateFrame = (u: number, fraction: number) => {
+    const k = shape.curvature * shape.curvatureProfile(u + fraction / (2 * steps));
+    const pitchDelta = hillPitch(shape.elevation, length, u + fraction / steps) - hillPitch(shape.elevation, length, u);
+
+    // Positive curvature turns right, i.e. clockwise about the local up
+    yaw.setFromAxisAngle(up, -k * ds * fraction);
+    pitch.setFromAxisAngle(right, pitchDelta);
+    rotation.multiplyQuaternions(pitch, yaw);
+
+    forward.applyQuaternion(rotation).normalize();
+    up.applyQuaternion(rotation);
+    // Keep the frame orthonormal against accumulated rounding
+    up.addScaledVector(forward, -up.dot(forward)).normalize();
+    right.crossVectors(forward, up).normalize();
+  };
+
+  const makeKnot = (u: number): CurveKnot => {
+    // Road normal tilted towards the inside of the turn
+    bank = bankForCurvature(shape.curvature * shape.curvatureProfile(u));
+    const bankedUp = up.clone().multiplyScalar(Math.cos(bank)).addScaledVector(right, Math.sin(bank));
+
+    return { position: position.clone(), tangent: forward.clone(), up: bankedUp };
+  };
+
+  const knots: CurveKnot[] = [makeKnot(0)];
+  let peakBank = 0;
+
+  for (let i = 0; i < steps; i++) {
+    const u = i / steps;
+
+    // Midpoint integration: rotate half a step, advance, rotate the other half
+    rotateFrame(u, 0.5);
+    position.addScaledVector(forward, ds);
+    rotateFrame(u + 0.5 / steps, 0.5);
+
+    if ((i + 1) % STEPS_PER_KNOT === 0) {
+      knots.push(makeKnot((i + 1) / steps));
+      if (Math.abs(bank) > Math.abs(peakBank)) peakBank = bank;
+    }
+  }
+
+  return createSegmentParams(knots, shape.type, shape.curvature, shape.elevation, peakBank);
+}
+
+/**
+ * Wraps a list of knots into segment parameters
+ * @param knots Centreline knots, the first and last define the segment's end poses
+ * @param type Segment type
+ * @param curvature Peak curvature (1/radius), positive turns right
+ * @param elevation Height change over the segment
+ * @param bank Peak bank angle in radians
+ */
+function createSegmentParams(
+  knots: CurveKnot[],
+  type: SegmentType,
+  curvature: number,
+  elevation: number,
+  bank: number
+): TrackSegmentParams {
+  const curve = new TrackCurve(knots);
+  const first = knots[0];
+  const last = knots[knots.length - 1];
+
   return {
-    startPosition,
-    startDirection,
-    endPosition,
-    endDirection,
-    controlPoints,
-    length: TRACK_CONFIG.segmentLength,
+    startPosition: first.position.clone(),
+    startDirection: first.tangent.clone(),
+    startUp: first.up.clone(),
+    endPosition: last.position.clone(),
+    endDirection: last.tangent.clone(),
+    endUp: last.up.clone(),
+    controlPoints: curve.getSpacedPoints(TRACK_CONFIG.pointsPerSegment - 1),
+    curve,
+    curvature,
+    elevation,
+    bank,
+    length: curve.getLength(),
+    startDistance: 0,
     width: TRACK_CONFIG.trackWidth,
-    type: 'straight'
+    type,
+    boostPads: [],
   };
 }
 
 /**
- * Generate a new track segment based on the previous one
+ * Places the boost pads of a segment
+ * Pads only go on segments without turns, so they are easy to line up for,
+ * and never on the first few segments. Like the shape, placement depends
+ * only on (seed, index).
+ * @param segment Segment to place pads on
+ * @param index Segment index
+ * @param seed Track seed
  */
-export function generateNextSegment(
-  prevSegment: TrackSegmentParams, 
-  index: number
+export function placeBoostPads(segment: TrackSegmentParams, index: number, seed: number = TRACK_CONFIG.seed): BoostPad[] {
+  if (index <= 5 || Math.abs(segment.curvature) >= TRACK_CONFIG.minCurvature / 2) return [];
+
+  const random = createRandom(hashSeed(seed ^ BOOST_PAD_STREAM, index));
+  if (random() >= TRACK_CONFIG.boostPadChance) return [];
+
+  // Somewhere in the middle half of the segment, clear of the barriers
+  const maxOffset = (segment.width - TRACK_CONFIG.boostPadWidth) / 2 - 2;
+  return [{
+    along: segment.length * (0.25 + random() * 0.5),
+    offset: (random() * 2 - 1) * maxOffset,
+  }];
+}
+
+/**
+ * Builds a straight segment, used for the start of the track and as a fallback
+ * @param startPosition World position where the segment starts
+ * @param startDirection Direction of travel
+ * @param startUp Road up vector at the start
+ */
+export function createStraightSegment(
+  startPosition: THREE.Vector3,
+  startDirection: THREE.Vector3,
+  startUp?: THREE.Vector3
 ): TrackSegmentParams {
-  if (DEBUG) {
-    console.log(`Generating segment ${index}`);
-  }
-  
-  // Start position and direction from the end of previous segment
-  const startPosition = prevSegment.endPosition.clone();
-  const startDirection = prevSegment.endDirection.clone();
-  
+  return buildSegment(startPosition, startDirection, {
+    type: 'straight',
+    curvature: 0,
+    curvatureProfile: STRAIGHT_PROFILE,
+    elevation: 0,
+  }, startUp);
+}
+
+/**
+ * Generate the first track segment
+ */
+export function generateFirstSegment(): TrackSegmentParams {
+  log.debug("Generating FIRST track segment - should be straight");
+
+  // First segment is always straight, forward along negative Z
+  return createStraightSegment(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -1));
+}
+
+/**
+ * Picks the type and shape of a segment
+ * Each type is drawn with the probability configured in TRACK_CONFIG from a
+ * random stream derived from (seed, index), so streaming segments in any
+ * order still reproduces the same track.
+ * @param index Segment index
+ * @param seed Track seed
+ */
+export function chooseSegmentShape(index: number, seed: number = TRACK_CONFIG.seed): SegmentShape {
+  const shape: SegmentShape = {
+    type: 'straight',
+    curvature: 0,
+    curvatureProfile: STRAIGHT_PROFILE,
+    elevation: 0,
+  };
+
   // First 5 segments should always be straight for stability
-  let type: SegmentType = 'straight';
-  let curvature = 0;
-  let elevation = 0;
-  
-  // After segment 5, start adding variations
-  if (index > 5) {
-    // Use Perlin noise with known seed for consistency
-    const noiseSeed = index * 0.3;
-    const noiseSample = noise(noiseSeed, 0, TRACK_CONFIG.seed * 0.01);
-    
-    // Determine segment type based on noise
-    if (Math.abs(noiseSample) > 0.7) {
-      // Curves
-      if (noiseSample > 0) {
-        type = 'curve-right';
-        curvature = 0.1;
-      } else {
-        type = 'curve-left';
-        curvature = -0.1;
-      }
-    } else if (Math.abs(noiseSample) > 0.9) {
-      // Very rare: hills, chicanes, s-curves
-      const typeRand = Math.abs(noise(noiseSeed, 2, TRACK_CONFIG.seed));
-      if (typeRand < 0.3) {
-        type = 'hill-up';
-        elevation = 0.5;
-      } else if (typeRand < 0.6) {
-        type = 'hill-down';
-        elevation = -0.5;
-      } else if (typeRand < 0.8) {
-        type = 'chicane';
-      } else {
-        type = 's-curve';
-      }
-    }
+  if (index <= 5) return shape;
+
+  const random = createRandom(hashSeed(seed, index));
+  const roll = random();
+  const direction = random() < 0.5 ? -1 : 1;
+
+  // Curve tightness varies smoothly along the track
+  const tightness = Math.abs(getNoise(seed).noise(index * 0.3, 1.5, 0));
+  const curvature = THREE.MathUtils.lerp(TRACK_CONFIG.minCurvature, TRACK_CONFIG.maxCurvature, tightness);
+
+  // Cumulative thresholds, whatever is left over becomes a straight
+  let threshold = TRACK_CONFIG.chicaneChance;
+  if (roll < threshold) {
+    shape.type = 'chicane';
+    shape.curvature = TRACK_CONFIG.chicaneCurvature * direction;
+    shape.curvatureProfile = CHICANE_PROFILE;
+    return shape;
   }
-  
-  // Calculate end position and direction
-  let endPosition = new THREE.Vector3();
-  let endDirection = new THREE.Vector3();
-  
-  // Simplified track geometry for debugging
-  if (type === 'straight') {
-    // Straight segment - extend in the direction of the start
-    endPosition.copy(startPosition).addScaledVector(startDirection, TRACK_CONFIG.segmentLength);
-    endDirection.copy(startDirection);
-  } 
-  else if (type === 'curve-left' || type === 'curve-right') {
-    // Simple curve logic
-    const curveSign = type === 'curve-right' ? 1 : -1;
-    const angle = 0.2 * curveSign; // Simplified curve angle
-    
-    // Rotate direction
-    endDirection.copy(startDirection);
-    const rotationMatrix = new THREE.Matrix4().makeRotationY(-angle);
-    endDirection.applyMatrix4(rotationMatrix);
-    
-    // Calculate end position (simplified)
-    endPosition.copy(startPosition).addScaledVector(
-      startDirection, 
-      TRACK_CONFIG.segmentLength * 0.7
-    ).addScaledVector(
-      new THREE.Vector3(curveSign, 0, 0),
-      TRACK_CONFIG.segmentLength * 0.3
-    );
+
+  threshold += TRACK_CONFIG.sCurveChance;
+  if (roll < threshold) {
+    shape.type = 's-curve';
+    shape.curvature = curvature * direction;
+    shape.curvatureProfile = S_CURVE_PROFILE;
+    return shape;
   }
-  else if (type === 'hill-up' || type === 'hill-down') {
-    // Simple hill
-    const elevationSign = type === 'hill-up' ? 1 : -1;
-    
-    endPosition.copy(startPosition)
-      .addScaledVector(startDirection, TRACK_CONFIG.segmentLength)
-      .add(new THREE.Vector3(0, elevation * elevationSign, 0));
-      
-    endDirection.copy(startDirection);
+
+  threshold += TRACK_CONFIG.curveFrequency;
+  if (roll < threshold) {
+    shape.type = direction > 0 ? 'curve-right' : 'curve-left';
+    shape.curvature = curvature * direction;
+    shape.curvatureProfile = CURVE_PROFILE;
+    return shape;
   }
-  else {
-    // Default to straight for any other types for now
-    endPosition.copy(startPosition).addScaledVector(startDirection, TRACK_CONFIG.segmentLength);
-    endDirection.copy(startDirection);
+
+  threshold += TRACK_CONFIG.elevationFrequency;
+  if (roll < threshold) {
+    shape.type = direction > 0 ? 'hill-up' : 'hill-down';
+    shape.elevation = direction > 0 ? TRACK_CONFIG.maxElevation : TRACK_CONFIG.minElevation;
+    return shape;
   }
-  
-  // Create simple control points (just interpolate)
-  const controlPoints = [
-    startPosition.clone(),
-    startPosition.clone().add(endPosition.clone().sub(startPosition).multiplyScalar(0.33)),
-    startPosition.clone().add(endPosition.clone().sub(startPosition).multiplyScalar(0.66)),
-    endPosition.clone()
-  ];
-  
+
+  return shape;
+}
+
+/**
+ * Generate a new track segment based on the previous one
+ * The result depends only on the previous segment, the index and the seed,
+ * so the same seed always reproduces the same track.
+ */
+export function generateNextSegment(
+  prevSegment: TrackSegmentParams,
+  index: number,
+  seed: number = TRACK_CONFIG.seed
+): TrackSegmentParams {
+  log.debug(`Generating segment ${index}`);
+
+  const shape = chooseSegmentShape(index, seed);
+  const segment = buildSegment(prevSegment.endPosition, prevSegment.endDirection, shape, prevSegment.endUp);
+  segment.startDistance = prevSegment.startDistance + prevSegment.length;
+  segment.boostPads = placeBoostPads(segment, index, seed);
+
   // Log the generated segment details for debugging
-  if (DEBUG) {
-    console.log(`Segment ${index}: ${type}, start=(${startPosition.x.toFixed(1)}, ${startPosition.y.toFixed(1)}, ${startPosition.z.toFixed(1)})`);
-  }
+  const { startPosition } = segment;
+  log.debug(`Segment ${index}: ${segment.type}, start=(${startPosition.x.toFixed(1)}, ${startPosition.y.toFixed(1)}, ${startPosition.z.toFixed(1)})`);
 
-  return {
-    startPosition,
-    startDirection,
-    endPosition,
-    endDirection,
-    controlPoints,
-    length: TRACK_CONFIG.segmentLength,
-    width: TRACK_CONFIG.trackWidth,
-    type
-  };
+  return segment;
 }
 
 /**
  * Generates a sequence of track segments
  * @param count Number of segments to generate
+ * @param seed Seed controlling the layout (defaults to TRACK_CONFIG.seed)
  * @returns Array of segment parameters
  */
-export function generateTrackSequence(count: number): TrackSegmentParams[] {
+export function generateTrackSequence(count: number, seed: number = TRACK_CONFIG.seed): TrackSegmentParams[] {
   const segments: TrackSegmentParams[] = [];
-  console.log(`Generating track sequence with ${count} segments`);
-  
+  log.debug(`Generating track sequence with ${count} segments (seed ${seed})`);
+
   // Always generate first segment first
   segments.push(generateFirstSegment());
-  
+
   // Generate remaining segments
   for (let i = 1; i < count; i++) {
-    segments.push(generateNextSegment(segments[i - 1], i));
+    segments.push(generateNextSegment(segments[i - 1], i, seed));
+  }
+
+  return segments;
+}
+
+/**
+ * Classifies a stretch of circuit by its curvature and height profile
+ * @param curvatures Signed curvature at each knot of the segment
+ * @param elevation Height change over the segment
+ */
+function classifyCircuitSegment(curvatures: number[], elevation: number): SegmentType {
+  const threshold = TRACK_CONFIG.minCurvature / 2;
+  const peakRight = Math.max(0, ...curvatures);
+  const peakLeft = Math.max(0, ...curvatures.map((k) => -k));
+
+  if (peakRight > threshold && peakLeft > threshold) return 's-curve';
+  if (peakRight > threshold) return 'curve-right';
+  if (peakLeft > threshold) return 'curve-left';
+  if (elevation > TRACK_CONFIG.maxElevation) return 'hill-up';
+  if (elevation < TRACK_CONFIG.minElevation) return 'hill-down';
+  return 'straight';
+}
+
+/**
+ * Generates a closed circuit from a seed
+ * Corners are placed around a ring at random radii and joined by a closed
+ * Catmull-Rom spline, which is cut into segments of (roughly) the usual
+ * length. Neighbouring segments share their boundary knot, including the last
+ * and first segment, so the loop joins with matching position, tangent and up.
+ * The circuit starts at the origin heading along -Z like the endless track.
+ * @param seed Seed controlling the layout (defaults to TRACK_CONFIG.seed)
+ * @returns Segment parameters in driving order, segment 0 starts at the start/finish line
+ */
+export function generateCircuit(seed: number = TRACK_CONFIG.seed): TrackSegmentParams[] {
+  log.debug(`Generating circuit (seed ${seed})`);
+
+  const random = createRandom(hashSeed(seed, CIRCUIT_STREAM));
+  const corners: THREE.Vector3[] = [];
+  const cornerCount = TRACK_CONFIG.circuitCorners;
+
+  for (let i = 0; i < cornerCount; i++) {
+    // Keep corners in angular order so the loop never crosses itself
+    const angle = ((i + (random() - 0.5) * 0.5) / cornerCount) * Math.PI * 2;
+    const radius = TRACK_CONFIG.circuitRadius * (1 + TRACK_CONFIG.circuitRadiusVariation * (random() * 2 - 1));
+    const height = TRACK_CONFIG.circuitHeightVariation * (random() * 2 - 1);
+    corners.push(new THREE.Vector3(Math.cos(angle) * radius, height, Math.sin(angle) * radius));
   }
-  
+
+  const loop = new THREE.CatmullRomCurve3(corners, true, 'centripetal');
+  const loopLength = loop.getLength();
+  const segmentCount = Math.max(3, Math.round(loopLength / TRACK_CONFIG.segmentLength));
+  const spans = TRACK_CONFIG.knotsPerSegment;
+  const knotCount = segmentCount * spans;
+
+  // Move the start of the loop to the origin, heading along -Z
+  const startTangent = loop.getTangentAt(0);
+  const alignment = new THREE.Quaternion().setFromUnitVectors(
+    new THREE.Vector3(startTangent.x, 0, startTangent.z).normalize(),
+    new THREE.Vector3(0, 0, -1)
+  );
+  const origin = loop.getPointAt(0).applyQuaternion(alignment);
+
+  const worldUp = new THREE.Vector3(0, 1, 0);
+  const delta = 0.5 / knotCount;
+  const knots: CurveKnot[] = [];
+  const curvatures: number[] = [];
+
+  for (let j = 0; j < knotCount; j++) {
+    const u = j / knotCount;
+    const position = loop.getPointAt(u).applyQuaternion(alignment).sub(origin);
+    const tangent = loop.getTangentAt(u).applyQuaternion(alignment);
+    const right = new THREE.Vector3().crossVectors(tangent, worldUp).normalize();
+
+    // Signed horizontal curvature from the change of tangent around this knot
+    const ahead = loop.getTangentAt((u + delta) % 1).applyQuaternion(alignment);
+    const behind = loop.getTangentAt((u - delta + 1) % 1).applyQuaternion(alignment);
+    const curvature = ahead.sub(behind).dot(right) / (2 * delta * loopLength);
+
+    const bank = bankForCurvature(curvature);
+    const up = worldUp.clone().addScaledVector(tangent, -tangent.y).normalize();
+    up.multiplyScalar(Math.cos(bank)).addScaledVector(right, Math.sin(bank)).normalize();
+
+    knots.push({ position, tangent, up });
+    curvatures.push(curvature);
+  }
+
+  const segments: TrackSegmentParams[] = [];
+  let startDistance = 0;
+
+  for (let i = 0; i < segmentCount; i++) {
+    const segmentKnots: CurveKnot[] = [];
+    const segmentCurvatures: number[] = [];
+
+    for (let k = 0; k <= spans; k++) {
+      // The last segment wraps around to the very first knot
+      const knot = knots[(i * spans + k) % knotCount];
+      segmentKnots.push({ position: knot.position.clone(), tangent: knot.tangent.clone(), up: knot.up.clone() });
+      segmentCurvatures.push(curvatures[(i * spans + k) % knotCount]);
+    }
+
+    const elevation = segmentKnots[spans].position.y - segmentKnots[0].position.y;
+    const peakCurvature = segmentCurvatures.reduce((peak, k) => (Math.abs(k) > Math.abs(peak) ? k : peak), 0);
+
+    const segment = createSegmentParams(
+      segmentKnots,
+      classifyCircuitSegment(segmentCurvatures, elevation),
+      peakCurvature,
+      elevation,
+      bankForCurvature(peakCurvature)
+    );
+    segment.startDistance = startDistance;
+    segment.boostPads = placeBoostPads(segment, i, seed);
+    startDistance += segment.length;
+    segments.push(segment);
+  }
+
   return segments;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+import { TrackCurve } from './track-curve';
+
+/**
+ * A sample on the centreline together with the local track frame
+ */
+export interface CenterlineSample {
+  position: THREE.Vector3;
+  tangent: THREE.Vector3;
+  right: THREE.Vector3; // points to the right-hand edge of the road
+  up: THREE.Vector3; // road surface normal
+  distance: number; // arc length from the start of the curve
+}
+
+/**
+ * Samples the curve at evenly spaced arc-length positions
+ * The frames include the road's banking, so the ribbon tilts with the track.
+ * @param curve Segment centreline
+ * @param divisions Number of intervals (returns divisions + 1 samples)
+ */
+export function sampleCenterline(curve: TrackCurve, divisions: number): CenterlineSample[] {
+  const samples: CenterlineSample[] = [];
+  const length = curve.getLength();
+
+  for (let i = 0; i <= divisions; i++) {
+    const u = i / divisions;
+    const frame = curve.getFrameAt(u);
+
+    samples.push({ ...frame, distance: u * length });
+  }
+
+  return samples;
+}
+
+/**
+ * Builds the road surface as a ribbon following the centreline
+ * UVs run 0..1 across the road and in road widths along it, so a square
+ * texture keeps its aspect ratio whatever the segment length.
+ * @param samples Centreline samples from sampleCenterline
+ * @param width Road width
+ * @param lateralDivisions Quads across the road
+ */
+export function createTrackRibbonGeometry(
+  samples: CenterlineSample[],
+  width: number,
+  lateralDivisions: number = 4
+): THREE.BufferGeometry {
+  const columns = lateralDivisions + 1;
+  const positions = new Float32Array(samples.length * columns * 3);
+  const uvs = new Float32Array(samples.length * columns * 2);
+  const indices: number[] = [];
+  const point = new THREE.Vector3();
+
+  samples.forEach((sample, i) => {
+    for (let j = 0; j < columns; j++) {
+      const across = j / lateralDivisions; // 0 = left edge, 1 = right edge
+      point.copy(sample.position).addScaledVector(sample.right, (across - 0.5) * width);
+
+      const vertex = i * columns + j;
+      point.toArray(positions, vertex * 3);
+      uvs[vertex * 2] = across;
+      uvs[vertex * 2 + 1] = sample.distance / width;
+    }
+  });
+
+  for (let i = 0; i < samples.length - 1; i++) {
+    for (let j = 0; j < lateralDivisions; j++) {
+      const a = i * columns + j;
+      const b = a + 1;
+      const c = a + columns;
+      const d = c + 1;
+      // Counter-clockwise seen from above so normals point up
+      indices.push(a, b, c, b, d, c);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Builds a barrier wall standing on one edge of the road
+ * @param samples Centreline samples from sampleCenterline
+ * @param width Road width
+ * @param side Which edge the wall stands on
+ * @param height Wall height along the road's up vector
+ */
+export function createBarrierGeometry(
+  samples: CenterlineSample[],
+  width: number,
+  side: 'left' | 'right',
+  height: number = 1.5
+): THREE.BufferGeometry {
+  const sign = side === 'right' ? 1 : -1;
+  const positions = new Float32Array(samples.length * 2 * 3);
+  const uvs = new Float32Array(samples.length * 2 * 2);
+  const indices: number[] = [];
+  const base = new THREE.Vector3();
+  const top = new THREE.Vector3();
+
+  samples.forEach((sample, i) => {
+    base.copy(sample.position).addScaledVector(sample.right, (sign * width) / 2);
+    top.copy(base).addScaledVector(sample.up, height);
+
+    base.toArray(positions, i * 6);
+    top.toArray(positions, i * 6 + 3);
+    uvs.set([sample.distance / height, 0, sample.distance / height, 1], i * 4);
+  });
+
+  for (let i = 0; i < samples.length - 1; i++) {
+    const a = i * 2;
+    const b = a + 1;
+    const c = a + 2;
+    const d = a + 3;
+    // Face the wall towards the road
+    if (side === 'right') {
+      indices.push(a, b, c, b, d, c);
+    } else {
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
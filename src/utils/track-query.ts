@@ -0,0 +1,118 @@
+import { Entity, World } from 'koota';
+import * as THREE from 'three';
+import { IsTrack, SpatialHashMap, TrackSegment } from '../traits';
+import { createTrackFrame } from './track-curve';
+import { TRACK_CONFIG } from './track-generator';
+
+/**
+ * A world position expressed in track coordinates
+ */
+export interface TrackProjection {
+  segment: Entity; // segment entity the position projects onto
+  index: number; // TrackSegment.index of that segment
+  s: number; // arc length along the centreline from the start of the track
+  along: number; // arc length from the start of the segment
+  d: number; // lateral offset from the centreline, positive to the right
+  h: number; // height above the road surface
+  width: number; // road width at this point
+  position: THREE.Vector3; // closest point on the centreline
+  tangent: THREE.Vector3; // direction of travel
+  normal: THREE.Vector3; // road surface normal (includes banking)
+  right: THREE.Vector3; // towards the right-hand edge of the road
+}
+
+/**
+ * Creates an empty projection to be filled by projectOntoTrack
+ */
+export function createTrackProjection(): TrackProjection {
+  const frame = createTrackFrame();
+
+  return {
+    segment: 0 as Entity,
+    index: -1,
+    s: 0,
+    along: 0,
+    d: 0,
+    h: 0,
+    width: TRACK_CONFIG.trackWidth,
+    position: frame.position,
+    tangent: frame.tangent,
+    normal: frame.up,
+    right: frame.right,
+  };
+}
+
+// Any point on a segment lies within this distance of the segment's start,
+// which is where its Transform (and so its spatial hash cell) sits
+const CANDIDATE_RADIUS = TRACK_CONFIG.segmentLength * 1.5 + TRACK_CONFIG.trackWidth;
+
+const candidates: Entity[] = [];
+const frame = createTrackFrame();
+const offset = new THREE.Vector3();
+
+/**
+ * Collects the track segments that may contain a position
+ * Uses the spatial hash, and falls back to every segment when the hash has
+ * nothing nearby (e.g. segments spawned this frame have not been hashed yet).
+ */
+function findCandidateSegments(world: World, position: THREE.Vector3): Entity[] {
+  const spatialHashMap = world.get(SpatialHashMap);
+  const nearby: Entity[] = [];
+
+  if (spatialHashMap) {
+    spatialHashMap.getNearbyEntities(position.x, position.y, position.z, CANDIDATE_RADIUS, candidates);
+    for (const entity of candidates) {
+      if (world.has(entity) && entity.has(TrackSegment)) nearby.push(entity);
+    }
+  }
+
+  if (nearby.length > 0) return nearby;
+
+  world.query(IsTrack, TrackSegment).forEach((entity) => nearby.push(entity));
+  return nearby;
+}
+
+/**
+ * Projects a world position onto the track centreline
+ * Picks the closest point over all candidate segments and returns the
+ * position in track coordinates together with the road frame there.
+ * @param world World instance
+ * @param position World position to project
+ * @param result Projection to write into, a new one is created if omitted
+ * @returns The projection, or null if there is no track
+ */
+export function projectOntoTrack(
+  world: World,
+  position: THREE.Vector3,
+  result: TrackProjection = createTrackProjection()
+): TrackProjection | null {
+  let closestDistance = Infinity;
+
+  for (const entity of findCandidateSegments(world, position)) {
+    const segment = entity.get(TrackSegment)!;
+    const curve = segment.curve;
+    if (curve.knots.length < 2) continue;
+
+    const u = curve.getClosestParameter(position);
+    curve.getFrameAt(u, frame);
+
+    const distance = frame.position.distanceToSquared(position);
+    if (distance >= closestDistance) continue;
+    closestDistance = distance;
+
+    offset.subVectors(position, frame.position);
+    result.segment = entity;
+    result.index = segment.index;
+    result.along = u * segment.length;
+    result.s = segment.startDistance + result.along;
+    result.d = offset.dot(frame.right);
+    result.h = offset.dot(frame.up);
+    result.width = segment.width;
+    result.position.copy(frame.position);
+    result.tangent.copy(frame.tangent);
+    result.normal.copy(frame.up);
+    result.right.copy(frame.right);
+  }
+
+  return closestDistance < Infinity ? result : null;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useRef } from 'react';
+import { useWorld } from 'koota/react';
+import { GameEventMap, GameEvents } from '../traits';
+
+/**
+ * Calls the listener with each game event of one type as the frame loop drains them
+ * The latest listener is always the one called, so it may use fresh props and state.
+ */
+export function useGameEvent<K extends keyof GameEventMap>(type: K, listener: (payload: GameEventMap[K]) => void) {
+  const world = useWorld();
+  const latest = useRef(listener);
+  latest.current = listener;
+
+  useEffect(() => world.get(GameEvents)?.on(type, (payload) => latest.current(payload)), [world, type]);
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { getBindings, subscribeBindings } from './input-bindings';
+
+/**
+ * Current input bindings, re-rendering whenever they change
+ */
+export function useInputBindings() {
+  const [bindings, setBindings] = useState(getBindings);
+  useEffect(() => subscribeBindings(setBindings), []);
+  return bindings;
+}
@@ -1,4 +1,11 @@
 import { createWorld } from 'koota';
-import { SpatialHashMap, Time } from './traits';
+import { DebugSettings, GameEvents, RaceSession, RapierState, SpatialHashMap, Time, TrackState } from './traits';
 
-export const world = createWorld(Time, SpatialHashMap);
+/**
+ * Creates a world with all the world-level traits the systems expect
+ */
+export function createGameWorld() {
+	return createWorld(Time, SpatialHashMap, RaceSession, DebugSettings, GameEvents, TrackState, RapierState);
+}
+
+export const world = createGameWorld();